@@ -1,24 +1,47 @@
-import { useEffect, useMemo, useState, useCallback } from "react";
-import { BrowserProvider, Contract, type Signer } from "ethers";
+import { useEffect, useMemo, useRef, useState, useCallback, type ReactNode } from "react";
+import { AbiCoder, BrowserProvider, ConstructorFragment, Contract, ErrorFragment, EventFragment, Fragment, FunctionFragment, Indexed, Interface, JsonRpcProvider, TypedDataEncoder, WebSocketProvider, dataLength, dataSlice, formatUnits, getAddress, getBytes, hashMessage, hexlify, isAddress, isHexString, keccak256, parseUnits, recoverAddress, toQuantity, toUtf8Bytes, verifyMessage, verifyTypedData, zeroPadBytes, type BaseContractMethod, type ContractEventPayload, type Log, type JsonRpcApiProvider, type Overrides, type Result, type Signer, type TransactionReceipt, type TypedDataDomain, type TypedDataField } from "ethers";
 import toast, { Toaster } from "react-hot-toast";
 // Single-file React Component (TypeScript)
 // Features:
-// 1) Connect to MetaMask
+// 1) Connect to any installed wallet (EIP-6963 discovery, window.ethereum fallback)
 // 2) Sign random strings with wallet
 // 3) Switch chains (supports switching to common EVM-compatible chains)
 // 4) Input ABI JSON and contract address
-// 5) Generate UI from ABI (supports basic types: address, uint*, int*, bool, string, bytes)
+// 5) Generate UI from ABI (supports address, uint*, int*, bool, string, bytes*, tuples and fixed/dynamic arrays)
 // 6) Call contract methods and display results (view/pure -> call, non-view -> send transaction)
+// 7) Query and live-subscribe to contract events, decoded with the ABI
+// 8) Simulate write calls (staticCall + estimateGas) and attach native value to payable functions
+// 9) Per-call transaction overrides: gas limit, EIP-1559 / legacy fees and nonce
+// 10) Persistent transaction history with status polling and explorer links
+// 11) Saved contracts workspace (address + ABI + chain), switching chain on select
+// 12) Signing workbench: personal_sign messages (text / hex) and EIP-712 typed data
+// 13) Signature verification: ecrecover for EOAs, isValidSignature (EIP-1271) for contract wallets
+// 14) Sign-In with Ethereum (EIP-4361) message builder and validator
+// 15) Read-only mode: view calls and event queries over a JSON-RPC URL without a wallet
+// 16) User-defined custom chains merged into the chain switcher
+// 17) Load verified ABIs from an Etherscan-compatible explorer API
+// 18) Proxy detection (EIP-1967 / beacon / EIP-1167) with implementation ABI merge or switch
+// 19) ABI input as JSON, Foundry/Hardhat artifact, human-readable lines or a Solidity interface
+// 20) ABI diagnostics: per-fragment errors/warnings, selectors, topics and overloads
+// 21) "Read all" view functions in one Multicall3 aggregate3 call, or in parallel without it
+// 22) Transaction queue: batch write calls, simulate in sequence, send in order or via wallet_sendCalls
+// 23) Safe Transaction Builder JSON export / import of the queue
+// 24) Calldata workbench: encoded calldata per function, decode calldata into the function's inputs
+// 25) Transaction lookup by hash: decoded input, receipt logs, gas, fees and revert reason
 
 // Usage:
 // - Requires: ethers v6
 // - Recommended for React + Tailwind projects
-// - Demo/skeleton only, can be extended (type validation, arrays, structs, etc.)
+// - Demo/skeleton only, can be extended
 
 type AbiInput = { 
   name: string; 
   type: string;
   internalType?: string;
+  // Present on tuple / tuple[] types, describes the struct fields
+  components?: AbiInput[];
+  // Event inputs only
+  indexed?: boolean;
 };
 type AbiItem = {
   type: string;
@@ -26,6 +49,206 @@ type AbiItem = {
   inputs?: AbiInput[];
   outputs?: AbiInput[];
   stateMutability?: string;
+  anonymous?: boolean;
+};
+
+// Converted argument passed to ethers: tuples and arrays become nested arrays
+type ParamValue = string | boolean | ParamValue[];
+
+// Event log decoded against the ABI, shown in the events table
+type DecodedEventLog = {
+  id: string;
+  name: string;
+  blockNumber: number;
+  transactionHash: string;
+  fields: ResultNode[];
+  live: boolean;
+};
+
+// Pre-flight result of a write call: staticCall outcome plus gas and fee estimate
+type SimulationResult = {
+  success: boolean;
+  returnValue: ResultNode[];
+  revert: string | null;
+  gasEstimate: bigint | null;
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  gasPrice: bigint | null;
+  // Upper bound: gasEstimate * (maxFeePerGas ?? gasPrice), in wei
+  maxCost: bigint | null;
+  // Native value attached to a payable call, in wei
+  value: bigint;
+  nativeCurrency: ChainConfig["nativeCurrency"];
+};
+
+// Sent transaction, persisted in localStorage (bigint fields stored as strings)
+type TxHistoryEntry = {
+  hash: string;
+  chainId: string;
+  contract: string;
+  functionName: string;
+  // JSON of the call arguments keyed by input name
+  args: string;
+  // "mined": included, but the receipt has no status (pre-Byzantium); "dropped": never mined or its nonce was replaced
+  status: "pending" | "success" | "failed" | "mined" | "dropped";
+  blockNumber: number | null;
+  gasUsed: string | null;
+  timestamp: number;
+};
+
+// Write call waiting in the transaction queue, encoded when it was added
+type QueuedCall = {
+  id: string;
+  chainId: string | null;
+  contract: string;
+  fn: AbiItem;
+  // ABI of the target contract when it was queued, to decode its custom errors
+  abi: AbiItem[];
+  args: ParamValue[];
+  overrides: Overrides;
+  data: string;
+  status: "queued" | "simulated" | "sim-failed" | "pending" | "confirmed" | "failed" | "skipped";
+  // Gas estimate, revert reason or block number of the last step run on it
+  detail: string | null;
+  hash: string | null;
+};
+
+// EIP-5792 wallet_sendCalls request version a wallet's capabilities allow
+type AtomicBatchVersion = "2.0.0" | "1.0";
+
+// Named contract in the saved workspace, persisted in localStorage
+type SavedContract = {
+  id: string;
+  name: string;
+  address: string;
+  abiText: string;
+  // Hex chain id the contract is deployed on, null if saved while disconnected
+  chainId: string | null;
+};
+
+// EIP-712 payload in the eth_signTypedData_v4 JSON shape
+type TypedDataPayload = {
+  domain: TypedDataDomain;
+  // Without EIP712Domain, which ethers derives from the domain
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+};
+
+// Output of the signing workbench
+type SignatureResult = {
+  kind: "message" | "typedData";
+  signature: string;
+  // EIP-191 / EIP-712 digest that was signed
+  digest: string;
+  recovered: string;
+};
+
+// Outcome of verifying a signature against an expected signer
+type VerificationResult = {
+  // null when the signer may be a contract but there is no provider to ask
+  valid: boolean | null;
+  method: "ecrecover" | "EIP-1271";
+  recovered: string | null;
+  reason: string;
+};
+
+// Fields of an EIP-4361 message
+type SiweFields = {
+  scheme?: string;
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources: string[];
+};
+
+// One row of the SIWE validation report
+type SiweCheck = {
+  field: string;
+  value: string;
+  ok: boolean;
+  error?: string;
+};
+
+// ERC-20 metadata read from the contract, cached per chain + address
+type TokenInfo = {
+  decimals: number;
+  symbol: string;
+};
+
+// Proxy found at the contract address, calls still go to the proxy itself
+type ProxyInfo = {
+  kind: "EIP-1967" | "EIP-1967 beacon" | "EIP-1167";
+  implementation: string;
+  admin: string | null;
+  beacon: string | null;
+};
+
+// Calldata decoded against the loaded ABI
+type DecodedCalldata = {
+  fnKey: string;
+  selector: string;
+  nodes: ResultNode[];
+};
+
+// Past transaction fetched by hash, decoded with the loaded ABI
+type TxLookupResult = {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: bigint;
+  blockNumber: number | null;
+  status: Exclude<TxHistoryEntry["status"], "dropped">;
+  gasUsed: bigint | null;
+  gasLimit: bigint;
+  effectiveGasPrice: bigint | null;
+  fee: bigint | null;
+  nativeCurrency: ChainConfig["nativeCurrency"];
+  // null when the selector is not in the ABI
+  call: DecodedCalldata | null;
+  selector: string | null;
+  revert: string | null;
+  logs: { index: number; address: string; topic0: string | null; decoded: DecodedEventLog | null }[];
+};
+
+// One view function of a "Read all" batch
+type ReadAllRow = {
+  fnKey: string;
+  success: boolean;
+  summary: string;
+};
+
+type ReadAllResult = {
+  address: string;
+  via: "Multicall3" | "parallel calls";
+  rows: ReadAllRow[];
+};
+
+// Diagnostics of one ABI entry; selector is the 4-byte selector or the event topic
+type AbiDiagnostic = {
+  index: number;
+  label: string;
+  selector: string | null;
+  errors: string[];
+  warnings: string[];
+};
+
+// Decoded return value, one node per ABI output / tuple field / array item
+type ResultNode = {
+  label: string;
+  type: string;
+  // Leaves only: display text and the raw value used for copying
+  value?: string;
+  raw?: string;
+  children?: ResultNode[];
 };
 
 interface EthereumProvider {
@@ -34,12 +257,38 @@ interface EthereumProvider {
   removeListener: (event: string, handler: (...args: unknown[]) => void) => void;
 }
 
+// EIP-6963 wallet identity announced alongside its provider
+type EIP6963ProviderInfo = {
+  uuid: string;
+  name: string;
+  // Data URI
+  icon: string;
+  // Reverse-DNS id, stable across sessions (e.g. io.metamask)
+  rdns: string;
+};
+
+type EIP6963ProviderDetail = {
+  info: EIP6963ProviderInfo;
+  provider: EthereumProvider;
+};
+
 declare global {
   interface Window {
     ethereum?: EthereumProvider;
   }
 }
 
+// How long to wait for the saved wallet to announce itself before dropping the saved connection
+const WALLET_RESTORE_TIMEOUT_MS = 3000;
+
+// Pseudo wallet for injected providers that don't implement EIP-6963
+const LEGACY_WALLET_INFO: EIP6963ProviderInfo = {
+  uuid: "legacy-injected",
+  name: "Injected Wallet",
+  icon: "",
+  rdns: "injected",
+};
+
 type ChainConfig = {
   chainId: string;
   name: string;
@@ -170,6 +419,26 @@ export default function AbiDynamicUI() {
   const [account, setAccount] = useState<string | null>(null);
   const [chainId, setChainId] = useState<string | null>(null);
 
+  // Wallets discovered via EIP-6963 and the one the connection is bound to
+  const [wallets, setWallets] = useState<EIP6963ProviderDetail[]>([]);
+  const [selectedWallet, setSelectedWallet] = useState<EIP6963ProviderDetail | null>(null);
+  const ethereum = selectedWallet?.provider ?? null;
+
+  // User-defined chains, merged over the built-in CHAIN_MAP
+  const [customChains, setCustomChains] = useState<Record<string, ChainConfig>>(loadCustomChains);
+  const chains = useMemo(() => ({ ...CHAIN_MAP, ...customChains }), [customChains]);
+  const [showChainEditor, setShowChainEditor] = useState(false);
+  const [chainForm, setChainForm] = useState<ChainForm>(EMPTY_CHAIN_FORM);
+  const [editingChainKey, setEditingChainKey] = useState<string | null>(null);
+  const [isSavingChain, setIsSavingChain] = useState(false);
+
+  // Read-only JSON-RPC endpoint used for view calls and event queries while no wallet is connected
+  const [rpcUrl, setRpcUrl] = useState<string>(() => localStorage.getItem('rpc_url') ?? CHAIN_MAP.ethereum.rpcUrls[0]);
+  const [rpcUrlInput, setRpcUrlInput] = useState<string>(rpcUrl);
+  const [rpcChainId, setRpcChainId] = useState<string | null>(null);
+  const [rpcError, setRpcError] = useState<string | null>(null);
+  const [rpcProvider, setRpcProvider] = useState<JsonRpcApiProvider | null>(null);
+
   // Debug: log connection state
   console.log('🔍 Current connection state:', { hasProvider: !!provider, hasSigner: !!signer, account, chainId });
 
@@ -177,37 +446,162 @@ export default function AbiDynamicUI() {
   const [contractAddress, setContractAddress] = useState<string>("");
   const [abi, setAbi] = useState<AbiItem[]>([]);
   const [parseError, setParseError] = useState<string | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+
+  // Explorer API: base URL override (empty = derived from the chain's explorer), key, and ABI cache per chain + address
+  const [explorerApiBase, setExplorerApiBase] = useState<string>(() => localStorage.getItem('explorer_api_base') ?? "");
+  const [explorerApiKey, setExplorerApiKey] = useState<string>(() => localStorage.getItem('explorer_api_key') ?? "");
+  const [showExplorerSettings, setShowExplorerSettings] = useState(false);
+  const [explorerAbiCache, setExplorerAbiCache] = useState<Record<string, string>>(loadExplorerAbiCache);
+  const [isFetchingAbi, setIsFetchingAbi] = useState(false);
 
   // Parameter state for each function call, key: functionName#idx or functionSignature
   const [paramsState, setParamsState] = useState<Record<string, string>>({});
+  // Row count of each dynamic array parameter, key: parameter path (e.g. fn(address[])#0)
+  const [arrayLengths, setArrayLengths] = useState<Record<string, number>>({});
+
+  // ERC-20 decimals/symbol cache, key: chainId:lowercased address
+  const [tokenInfoCache, setTokenInfoCache] = useState<Record<string, TokenInfo>>({});
+  // Proxy detection per chain + address
+  const [proxyInfoCache, setProxyInfoCache] = useState<Record<string, ProxyInfo | null>>({});
+  // Integer fields switched to human (decimal-adjusted) units, key: parameter or result path
+  const [humanUnits, setHumanUnits] = useState<Record<string, boolean>>({});
+
+  // Latest decoded result of each read function, key: fnKey
+  const [results, setResults] = useState<Record<string, ResultNode[]>>({});
+  // Last "Read all" dashboard
+  const [readAll, setReadAll] = useState<ReadAllResult | null>(null);
+  const [isReadingAll, setIsReadingAll] = useState(false);
+  // Latest pre-flight simulation of each write function, key: fnKey
+  const [simulations, setSimulations] = useState<Record<string, SimulationResult>>({});
+  // Payable functions whose value is entered in wei instead of native units, key: fnKey
+  const [rawValueUnits, setRawValueUnits] = useState<Record<string, boolean>>({});
+  // Write functions with the advanced overrides section expanded, key: fnKey
+  const [showOverrides, setShowOverrides] = useState<Record<string, boolean>>({});
+  // Encoded calldata panel shown per function
+  const [showCalldata, setShowCalldata] = useState<Record<string, boolean>>({});
+  const [calldataInput, setCalldataInput] = useState<string>("");
+  const [decodedCalldata, setDecodedCalldata] = useState<DecodedCalldata | null>(null);
+  const [txLookupHash, setTxLookupHash] = useState<string>("");
+  const [txLookup, setTxLookup] = useState<TxLookupResult | null>(null);
+  const [isLookingUpTx, setIsLookingUpTx] = useState(false);
 
   const [logs, setLogs] = useState<string[]>([]);
+
+  // Sent transactions, survives reloads
+  const [txHistory, setTxHistory] = useState<TxHistoryEntry[]>(loadTxHistory);
+
+  // Transaction queue
+  const [txQueue, setTxQueue] = useState<QueuedCall[]>([]);
+  const [isRunningQueue, setIsRunningQueue] = useState(false);
+  // Safe that will execute an exported batch, recorded in its metadata
+  const [safeAddress, setSafeAddress] = useState<string>("");
+
+  // Signing workbench
+  const [signMode, setSignMode] = useState<"message" | "typedData">("message");
+  const [messageText, setMessageText] = useState<string>("");
+  const [messageIsHex, setMessageIsHex] = useState(false);
+  const [typedDataText, setTypedDataText] = useState<string>("");
+  const [signatureResult, setSignatureResult] = useState<SignatureResult | null>(null);
+  const [verifySignatureText, setVerifySignatureText] = useState<string>("");
+  const [verifyAddress, setVerifyAddress] = useState<string>("");
+  const [verificationResult, setVerificationResult] = useState<VerificationResult | null>(null);
+
+  // Sign-In with Ethereum builder / validator
+  const [siweDomain, setSiweDomain] = useState<string>(window.location.host);
+  const [siweUri, setSiweUri] = useState<string>(window.location.origin);
+  const [siweStatement, setSiweStatement] = useState<string>("Sign in to the dapp");
+  const [siweNonce, setSiweNonce] = useState<string>(generateSiweNonce);
+  const [siweExpiryMinutes, setSiweExpiryMinutes] = useState<string>("10");
+  const [siweMessage, setSiweMessage] = useState<string>("");
+  const [siweSignature, setSiweSignature] = useState<string>("");
+  const [siweChecks, setSiweChecks] = useState<SiweCheck[] | null>(null);
+
+  // Saved contracts address book
+  const [savedContracts, setSavedContracts] = useState<SavedContract[]>(loadSavedContracts);
+  const [saveName, setSaveName] = useState<string>("");
+
+  // Events panel: selected event signature ("*" for all), block range and decoded logs
+  const [selectedEvent, setSelectedEvent] = useState<string>("*");
+  const [fromBlock, setFromBlock] = useState<string>("");
+  const [toBlock, setToBlock] = useState<string>("");
+  const [eventLogs, setEventLogs] = useState<DecodedEventLog[]>([]);
+  const [isQueryingEvents, setIsQueryingEvents] = useState(false);
+  const [isLive, setIsLive] = useState(false);
+  const liveContractRef = useRef<Contract | null>(null);
   
   // Prevent duplicate auto-reconnection
   const [isReconnecting, setIsReconnecting] = useState(false);
+  const restoreAttemptedRef = useRef(false);
+
+  // EIP-6963 wallet discovery: each installed wallet announces its own provider instead of fighting over window.ethereum
+  useEffect(() => {
+    const handleAnnounce = (event: Event) => {
+      const detail = (event as CustomEvent<EIP6963ProviderDetail>).detail;
+      console.log('📣 Wallet announced:', detail.info.name, detail.info.rdns);
+      // A late announcement replaces the window.ethereum fallback, which is usually the same wallet
+      setWallets((list) =>
+        list.some((w) => w.info.uuid === detail.info.uuid)
+          ? list
+          : [...list.filter((w) => w.info.uuid !== LEGACY_WALLET_INFO.uuid), detail]
+      );
+    };
+    window.addEventListener('eip6963:announceProvider', handleAnnounce);
+    window.dispatchEvent(new Event('eip6963:requestProvider'));
+
+    // Wallets without EIP-6963 support only inject window.ethereum
+    const timer = setTimeout(() => {
+      setWallets((list) => {
+        if (list.length > 0 || !window.ethereum) return list;
+        console.log('ℹ️ No EIP-6963 announcement, falling back to window.ethereum');
+        return [{ info: LEGACY_WALLET_INFO, provider: window.ethereum }];
+      });
+    }, 500);
+
+    return () => {
+      window.removeEventListener('eip6963:announceProvider', handleAnnounce);
+      clearTimeout(timer);
+    };
+  }, []);
 
-  // Restore wallet connection from localStorage on page load
+  // Restore wallet connection from localStorage once the saved wallet has announced itself
   useEffect(() => {
+    if (restoreAttemptedRef.current) return;
     const savedAccount = localStorage.getItem('wallet_account');
-    
-    if (savedAccount && window.ethereum) {
-      console.log('💾 Detected saved account, preparing to verify and restore...');
-      
-      // Wait a moment for MetaMask to initialize, then verify
-      const timer = setTimeout(() => {
-        reconnectWallet().catch((error) => {
-          console.error('❌ Auto-reconnect failed:', error);
-          // Verification failed, clear saved state
-          localStorage.removeItem('wallet_account');
-          localStorage.removeItem('wallet_chainId');
-          // Don't show toast, fail silently
-          console.log('⚠️ Please manually reconnect wallet');
-        });
-      }, 800); // 800ms is a balance: gives MetaMask time to init without making user wait too long
-      
-      return () => clearTimeout(timer);
+    if (!savedAccount) {
+      restoreAttemptedRef.current = true;
+      return;
     }
+    // Connections saved before wallet discovery have no rdns, use the first wallet found
+    const savedRdns = localStorage.getItem('wallet_rdns');
+    const wallet = savedRdns ? wallets.find((w) => w.info.rdns === savedRdns) : wallets[0];
+    if (!wallet) return;
+    restoreAttemptedRef.current = true;
+
+    console.log(`💾 Detected saved account, restoring with ${wallet.info.name}...`);
+    reconnectWallet(wallet).catch((error) => {
+      console.error('❌ Auto-reconnect failed:', error);
+      // Verification failed, clear saved state
+      localStorage.removeItem('wallet_account');
+      localStorage.removeItem('wallet_chainId');
+      localStorage.removeItem('wallet_rdns');
+      // Don't show toast, fail silently
+      console.log('⚠️ Please manually reconnect wallet');
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wallets]);
+
+  // Give up on restoring when the saved wallet never announces (uninstalled or disabled)
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (restoreAttemptedRef.current) return;
+      restoreAttemptedRef.current = true;
+      console.log('⚠️ Saved wallet not found, clearing saved connection:', localStorage.getItem('wallet_rdns'));
+      localStorage.removeItem('wallet_account');
+      localStorage.removeItem('wallet_chainId');
+      localStorage.removeItem('wallet_rdns');
+    }, WALLET_RESTORE_TIMEOUT_MS);
+    return () => clearTimeout(timer);
   }, []);
 
   // Account change handler - use useCallback to avoid closure issues
@@ -225,9 +619,9 @@ export default function AbiDynamicUI() {
       // Async processing
       setTimeout(async () => {
         try {
-          if (!window.ethereum) return;
+          if (!selectedWallet) return;
           
-          const web3Provider = new BrowserProvider(window.ethereum);
+          const web3Provider = new BrowserProvider(selectedWallet.provider);
           const s = await web3Provider.getSigner();
           const addr = await s.getAddress();
           
@@ -260,10 +654,13 @@ export default function AbiDynamicUI() {
       setSigner(null);
       setAccount(null);
       setChainId(null);
-      localStorage.clear();
+      setSelectedWallet(null);
+      localStorage.removeItem('wallet_account');
+      localStorage.removeItem('wallet_chainId');
+      localStorage.removeItem('wallet_rdns');
       toast.error('Account disconnected');
     }
-  }, []); // Empty dependency array, all setState functions are stable
+  }, [selectedWallet]);
   
   // Chain change handler - use useCallback to avoid closure issues
   const handleChainChanged = useCallback((...args: unknown[]) => {
@@ -274,10 +671,10 @@ export default function AbiDynamicUI() {
     toast.success(`Switched to chain ${chainId}`, { duration: 2000 });
     
     // Re-fetch signer
-    if (window.ethereum) {
+    if (selectedWallet) {
       setTimeout(async () => {
         try {
-          const web3Provider = new BrowserProvider(window.ethereum!);
+          const web3Provider = new BrowserProvider(selectedWallet.provider);
           const s = await web3Provider.getSigner();
           setProvider(web3Provider);
           setSigner(s);
@@ -287,101 +684,26 @@ export default function AbiDynamicUI() {
         }
       }, 100);
     }
-  }, []); // Empty dependency array, all setState functions are stable
+  }, [selectedWallet]);
 
-  // Initialize window.ethereum event listeners - use persistence strategy
+  // Bind account / chain listeners to the selected wallet's provider only
   useEffect(() => {
-    console.log('🎯 [New Version] Registering MetaMask event listeners...');
-    
-    let handlers: { accountsHandler: (...args: unknown[]) => void; chainHandler: (...args: unknown[]) => void } | null = null;
-    let checkInterval: NodeJS.Timeout | null = null;
-    
-    // Use arrow function wrapper to avoid closure issues
-    const accountsHandler = (...args: unknown[]) => {
-      console.log('🔔🔔🔔 accountsChanged triggered!!!', args);
-      handleAccountsChanged(...args);
-    };
-    
-    const chainHandler = (...args: unknown[]) => {
-      console.log('🔔 chainChanged triggered! chainId:', args);
-      handleChainChanged(...args);
-    };
-    
-    // Function to register listeners
-    const registerListeners = () => {
-      if (!window.ethereum) {
-        console.log('❌ window.ethereum does not exist');
-        return false;
-      }
-      
-      // Check if already registered (avoid duplicate registration)
-      const events = (window.ethereum as { _events?: Record<string, unknown[]> })._events;
-      // @ts-expect-error - accessing internal MetaMask events
-      const hasAccountsListener = events?.accountsChanged?.length > 0;
-      
-      if (hasAccountsListener) {
-        console.log('✓ Listener already exists, skip registration');
-        return true;
-      }
-      
-      console.log('📌 Registering listeners...');
-      window.ethereum.on('accountsChanged', accountsHandler);
-      window.ethereum.on('chainChanged', chainHandler);
-      console.log('✅ Listener registration completed!');
-      
-      // Verify registration
-      const newEvents = (window.ethereum as { _events?: unknown })._events;
-      console.log('🔍 Verify: window.ethereum._events =', newEvents);
-      
-      return true;
-    };
-    
-    // Initial registration
-    const timer = setTimeout(() => {
-      if (registerListeners()) {
-        handlers = { accountsHandler, chainHandler };
-        
-        // Check every 5 seconds if listeners are still there
-        checkInterval = setInterval(() => {
-          if (!window.ethereum) return;
-          
-          const events = (window.ethereum as { _events?: Record<string, unknown[]> })._events;
-          const hasListeners = events && typeof events.accountsChanged !== 'undefined';
-          
-          if (!hasListeners) {
-            console.warn('⚠️ Detected listener loss, re-registering...');
-            registerListeners();
-          }
-        }, 5000);
-      }
-      
-      // Initial account fetch
-      if (window.ethereum) {
-        window.ethereum.request({ method: "eth_accounts" })
-        // @ts-expect-error - eth_accounts returns string[]
-        .then((accounts: string[]) => {
-            if (accounts.length > 0) setAccount(accounts[0]);
-          })
-          .catch(err => console.error('Failed to fetch accounts:', err));
-      }
-    }, 100);
+    if (!selectedWallet) return;
+    const ethereum = selectedWallet.provider;
+    console.log(`📌 Registering listeners on ${selectedWallet.info.name}...`);
+    ethereum.on('accountsChanged', handleAccountsChanged);
+    ethereum.on('chainChanged', handleChainChanged);
     
     // Cleanup function
     return () => {
-      console.log('🧹 Cleaning up listeners and timers');
-      clearTimeout(timer);
-      if (checkInterval) clearInterval(checkInterval);
-      
-      if (window.ethereum && handlers) {
-        window.ethereum.removeListener('accountsChanged', handlers.accountsHandler);
-        window.ethereum.removeListener('chainChanged', handlers.chainHandler);
-      }
+      console.log('🧹 Cleaning up listeners');
+      ethereum.removeListener('accountsChanged', handleAccountsChanged);
+      ethereum.removeListener('chainChanged', handleChainChanged);
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Empty dependency array, only execute on mount
+  }, [selectedWallet, handleAccountsChanged, handleChainChanged]);
 
   // Reconnect wallet (restore after page refresh)
-  async function reconnectWallet() {
+  async function reconnectWallet(wallet: EIP6963ProviderDetail) {
     if (isReconnecting) {
       console.log('⏸️ Reconnection task already in progress, skip');
       return;
@@ -392,12 +714,7 @@ export default function AbiDynamicUI() {
     try {
       console.log('🔄 Starting automatic wallet reconnection...');
       
-      if (!window.ethereum) {
-        console.log('❌ MetaMask not detected');
-        return;
-      }
-      
-      const web3Provider = new BrowserProvider(window.ethereum);
+      const web3Provider = new BrowserProvider(wallet.provider);
       console.log('✅ BrowserProvider created successfully');
       
       // Add timeout mechanism to prevent request hang
@@ -429,6 +746,7 @@ export default function AbiDynamicUI() {
       console.log('✅ Network info retrieved successfully, chain ID:', hexChainId);
       
       // Update state
+      setSelectedWallet(wallet);
       setProvider(web3Provider);
       setSigner(s);
       setAccount(addr);
@@ -437,9 +755,10 @@ export default function AbiDynamicUI() {
       // Update localStorage
       localStorage.setItem('wallet_account', addr);
       localStorage.setItem('wallet_chainId', hexChainId);
+      localStorage.setItem('wallet_rdns', wallet.info.rdns);
       
       // Show success toast
-      pushLog(`Auto-restore connection successful: ${addr}`);
+      pushLog(`Auto-restore connection successful: ${addr} (${wallet.info.name})`);
       toast.success('Wallet connection auto-restored', { icon: '🦊', duration: 2000 });
       console.log('🎉 Auto-reconnect successful!');
     } catch (error) {
@@ -451,19 +770,16 @@ export default function AbiDynamicUI() {
     }
   }
 
-  // Connect to MetaMask
-  async function connectWallet() {
-    const toastId = toast.loading('Connecting wallet...');
+  // Connect to the wallet picked from the discovered providers
+  async function connectWallet(wallet: EIP6963ProviderDetail) {
+    const toastId = toast.loading(`Connecting ${wallet.info.name}...`);
     try {
-      if (!window.ethereum) {
-        throw new Error("MetaMask or compatible wallet not detected");
-      }
-      const web3Provider = new BrowserProvider(window.ethereum);
+      const web3Provider = new BrowserProvider(wallet.provider);
       const accounts = await web3Provider.send("eth_requestAccounts", []);
-      await window.ethereum.request({ method: "eth_accounts"});
       console.log('📋 Account list retrieved:', accounts);
       const s = await web3Provider.getSigner();
       const addr = await s.getAddress();
+      setSelectedWallet(wallet);
       setProvider(web3Provider);
       setSigner(s);
       setAccount(addr);
@@ -474,8 +790,9 @@ export default function AbiDynamicUI() {
       // Save to localStorage
       localStorage.setItem('wallet_account', addr);
       localStorage.setItem('wallet_chainId', hexChainId);
+      localStorage.setItem('wallet_rdns', wallet.info.rdns);
       
-      pushLog(`Connected: ${addr}`);
+      pushLog(`Connected: ${addr} (${wallet.info.name})`);
       toast.success(`Wallet connected successfully`, { id: toastId, icon: '✅' });
     } catch (e) {
       const error = e as Error;
@@ -496,10 +813,12 @@ export default function AbiDynamicUI() {
     setSigner(null);
     setAccount(null);
     setChainId(null);
+    setSelectedWallet(null);
     
     // Clear localStorage
     localStorage.removeItem('wallet_account');
     localStorage.removeItem('wallet_chainId');
+    localStorage.removeItem('wallet_rdns');
     
     pushLog("Local connection disconnected");
     toast.success('Wallet disconnected', { icon: '👋' });
@@ -524,12 +843,249 @@ export default function AbiDynamicUI() {
     }
   }
 
+  // Sign the workbench message (text or hex bytes) with personal_sign
+  async function signWorkbenchMessage() {
+    const toastId = toast.loading('Requesting signature...');
+    try {
+      if (!signer) throw new Error("Please connect wallet first");
+      const message = messageIsHex ? getBytes(messageText.trim()) : messageText;
+      const signature = await signer.signMessage(message);
+      const recovered = verifyMessage(message, signature);
+      setSignatureResult({ kind: "message", signature, digest: hashMessage(message), recovered });
+      pushLog(`Message signature: ${signature} (signer ${recovered})`);
+      toast.success('Signature successful!', { id: toastId, icon: '✍️' });
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`Signature failed: ${error.message || String(e)}`);
+      toast.error(`Signature failed: ${error.message}`, { id: toastId });
+    }
+  }
+
+  // Sign the workbench EIP-712 JSON after checking its domain against the connected chain
+  async function signWorkbenchTypedData() {
+    const toastId = toast.loading('Requesting typed data signature...');
+    try {
+      if (!signer) throw new Error("Please connect wallet first");
+      const { domain, types, message } = parseTypedDataJson(typedDataText);
+      if (domain.chainId == null) {
+        pushLog("Warning: typed data domain has no chainId, signature can be replayed across chains");
+      } else if (chainId && BigInt(domain.chainId) !== BigInt(chainId)) {
+        throw new Error(`Domain chainId ${domain.chainId} does not match connected chain ${BigInt(chainId)}`);
+      }
+      const signature = await signer.signTypedData(domain, types, message);
+      const recovered = verifyTypedData(domain, types, message, signature);
+      const digest = TypedDataEncoder.hash(domain, types, message);
+      setSignatureResult({ kind: "typedData", signature, digest, recovered });
+      pushLog(`Typed data signature: ${signature} (signer ${recovered})`);
+      toast.success('Signature successful!', { id: toastId, icon: '✍️' });
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`Typed data signature failed: ${error.message || String(e)}`);
+      toast.error(`Signature failed: ${error.message}`, { id: toastId });
+    }
+  }
+
+  // EIP-191 / EIP-712 digest of the workbench payload in the current mode
+  function getWorkbenchDigest(): string {
+    if (signMode === "message") {
+      return hashMessage(messageIsHex ? getBytes(messageText.trim()) : messageText);
+    }
+    const { domain, types, message } = parseTypedDataJson(typedDataText);
+    return TypedDataEncoder.hash(domain, types, message);
+  }
+
+  // Verify a signature over the workbench payload: EIP-1271 when the signer has code, ecrecover otherwise
+  async function verifyWorkbenchSignature() {
+    const toastId = toast.loading('Verifying signature...');
+    try {
+      const signature = verifySignatureText.trim();
+      if (!isHexString(signature, true)) throw new Error("Signature must be a hex string");
+      const expected = verifyAddress.trim();
+      if (expected && !isAddress(expected)) throw new Error(`Invalid signer address "${expected}"`);
+      const digest = getWorkbenchDigest();
+
+      // Contract wallet signatures are not necessarily 65 bytes, so recovery may fail
+      let recovered: string | null = null;
+      try {
+        recovered = recoverAddress(digest, signature);
+      } catch {
+        recovered = null;
+      }
+
+      let result: VerificationResult;
+      let verifyProvider: JsonRpcApiProvider | null = null;
+      try {
+        verifyProvider = expected ? getReadProvider() : null;
+      } catch {
+        verifyProvider = null;
+      }
+      const matches = !!recovered && recovered.toLowerCase() === expected.toLowerCase();
+      if (verifyProvider && (await verifyProvider.getCode(expected)) !== "0x") {
+        const wallet = new Contract(expected, EIP1271_ABI, verifyProvider);
+        try {
+          const magic = await wallet.isValidSignature(digest, signature);
+          result = magic === EIP1271_MAGIC_VALUE
+            ? { valid: true, method: "EIP-1271", recovered, reason: "isValidSignature returned the magic value" }
+            : { valid: false, method: "EIP-1271", recovered, reason: `isValidSignature returned ${magic}` };
+        } catch (err) {
+          result = { valid: false, method: "EIP-1271", recovered, reason: `isValidSignature reverted: ${describeRevert(err) ?? (err as Error).message.split('\n')[0]}` };
+        }
+      } else if (expected && !verifyProvider && !matches) {
+        result = { valid: null, method: "ecrecover", recovered, reason: "Cannot verify a contract signer (EIP-1271): connect a wallet or configure a read-only RPC URL" };
+      } else if (!recovered) {
+        result = { valid: false, method: "ecrecover", recovered, reason: "Signature is malformed, no address could be recovered" };
+      } else if (!expected) {
+        result = { valid: true, method: "ecrecover", recovered, reason: "No expected signer given, showing the recovered address" };
+      } else if (matches) {
+        result = { valid: true, method: "ecrecover", recovered, reason: "Recovered address matches the expected signer" };
+      } else {
+        result = { valid: false, method: "ecrecover", recovered, reason: `Recovered ${recovered}, expected ${expected}` };
+      }
+
+      setVerificationResult(result);
+      pushLog(`Signature verification (${result.method}): ${result.valid === null ? "unverified" : result.valid ? "valid" : "invalid"} - ${result.reason}`);
+      if (result.valid) {
+        toast.success('Signature is valid', { id: toastId, icon: '✅' });
+      } else if (result.valid === null) {
+        toast('Cannot verify contract signer', { id: toastId, icon: '⚠️' });
+      } else {
+        toast.error('Signature is invalid', { id: toastId });
+      }
+    } catch (e) {
+      const error = e as Error;
+      setVerificationResult(null);
+      pushLog(`Signature verification failed: ${error.message || String(e)}`);
+      toast.error(`Verification failed: ${error.message}`, { id: toastId });
+    }
+  }
+
+  // Build an EIP-4361 message for the connected account and sign it
+  async function buildAndSignSiwe() {
+    const toastId = toast.loading('Requesting SIWE signature...');
+    try {
+      if (!signer || !account || !chainId) throw new Error("Please connect wallet first");
+      const minutes = siweExpiryMinutes.trim();
+      if (minutes && !(Number(minutes) > 0)) throw new Error("Expiry must be a positive number of minutes");
+      const now = new Date();
+      const message = buildSiweMessage({
+        domain: siweDomain.trim(),
+        address: getAddress(account),
+        statement: siweStatement.trim() || undefined,
+        uri: siweUri.trim(),
+        version: "1",
+        chainId: Number(BigInt(chainId)),
+        nonce: siweNonce.trim(),
+        issuedAt: now.toISOString(),
+        expirationTime: minutes ? new Date(now.getTime() + Number(minutes) * 60000).toISOString() : undefined,
+        resources: [],
+      });
+      const signature = await signer.signMessage(message);
+      setSiweMessage(message);
+      setSiweSignature(signature);
+      setSiweChecks(null);
+      pushLog(`SIWE message signed: ${signature}`);
+      toast.success('SIWE message signed', { id: toastId, icon: '🔐' });
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`SIWE signing failed: ${error.message || String(e)}`);
+      toast.error(`Signing failed: ${error.message}`, { id: toastId });
+    }
+  }
+
+  // Parse and validate the SIWE message + signature, reporting per field
+  function validateSiwe() {
+    const checks = validateSiweMessage(siweMessage, siweSignature.trim(), {
+      domain: siweDomain.trim(),
+      chainId: chainId ? Number(BigInt(chainId)) : null,
+      now: new Date(),
+    });
+    setSiweChecks(checks);
+    const failed = checks.filter((c) => !c.ok);
+    pushLog(`SIWE validation: ${failed.length === 0 ? "valid" : failed.map((c) => `${c.field}: ${c.error}`).join("; ")}`);
+    if (failed.length === 0) {
+      toast.success('SIWE message is valid', { icon: '✅' });
+    } else {
+      toast.error(`${failed.length} field(s) failed validation`);
+    }
+  }
+
+  // Persist custom chains on every change
+  useEffect(() => {
+    localStorage.setItem(CUSTOM_CHAINS_STORAGE_KEY, JSON.stringify(customChains));
+  }, [customChains]);
+
+  // Validate the chain form and check that its RPC reports the same chain id before saving
+  async function saveCustomChain() {
+    const toastId = toast.loading('Checking RPC...');
+    setIsSavingChain(true);
+    try {
+      const chain = chainFormToConfig(chainForm);
+      const key = `custom:${chain.chainId}`;
+      const builtIn = Object.values(CHAIN_MAP).find((c) => c.chainId === chain.chainId);
+      if (builtIn) throw new Error(`Chain ${Number(BigInt(chain.chainId))} is built in as ${builtIn.name}`);
+      if (key !== editingChainKey && customChains[key]) {
+        throw new Error(`Chain ${Number(BigInt(chain.chainId))} already exists as ${customChains[key].name}`);
+      }
+
+      const provider = createRpcProvider(chain.rpcUrls[0]);
+      try {
+        const reported = await withTimeout(provider.send("eth_chainId", []) as Promise<string>, 10000, 'RPC did not respond within 10s');
+        if (BigInt(reported) !== BigInt(chain.chainId)) {
+          throw new Error(`RPC reports chain ${BigInt(reported)}, not ${BigInt(chain.chainId)}`);
+        }
+      } finally {
+        provider.destroy();
+      }
+
+      setCustomChains((c) => {
+        const next = { ...c };
+        if (editingChainKey) delete next[editingChainKey];
+        return { ...next, [key]: chain };
+      });
+      setEditingChainKey(null);
+      setChainForm(EMPTY_CHAIN_FORM);
+      pushLog(`Custom chain saved: ${chain.name} (${chain.chainId})`);
+      toast.success(`Saved ${chain.name}`, { id: toastId, icon: '🧩' });
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`Custom chain rejected: ${error.message || String(e)}`);
+      toast.error(error.message.split('\n')[0], { id: toastId });
+    } finally {
+      setIsSavingChain(false);
+    }
+  }
+
+  function editCustomChain(key: string) {
+    setEditingChainKey(key);
+    setChainForm(chainConfigToForm(customChains[key]));
+  }
+
+  function deleteCustomChain(key: string) {
+    const chain = customChains[key];
+    if (!window.confirm(`Delete custom chain "${chain.name}"?`)) return;
+    setCustomChains((c) => {
+      const next = { ...c };
+      delete next[key];
+      return next;
+    });
+    if (editingChainKey === key) {
+      setEditingChainKey(null);
+      setChainForm(EMPTY_CHAIN_FORM);
+    }
+    pushLog(`Custom chain deleted: ${chain.name}`);
+  }
+
   // Switch chain
   async function switchChain(target: ChainConfig) {
+    // Without a wallet, point the read-only RPC at the target chain instead
+    if (!ethereum) {
+      applyRpcUrl(target.rpcUrls[0]);
+      toast.success(`Read-only mode on ${target.name}`, { icon: '🛰️' });
+      return;
+    }
     const toastId = toast.loading(`Switching to ${target.name}...`);
     try {
-      if (!window.ethereum) throw new Error("Wallet not detected");
-      await window.ethereum.request({
+      await ethereum.request({
         method: "wallet_switchEthereumChain",
         params: [{ chainId: target.chainId }],
       });
@@ -538,13 +1094,13 @@ export default function AbiDynamicUI() {
     } catch (e: unknown) {
       const error = e as { code?: number; message?: string };
       
-      // Error code 4902 means the chain is not added to MetaMask
+      // Error code 4902 means the chain is not added to the wallet
       if (error.code === 4902) {
         try {
           toast.loading(`Adding ${target.name} to wallet...`, { id: toastId });
           
           // Add new network
-          await window.ethereum!.request({
+          await ethereum!.request({
             method: "wallet_addEthereumChain",
             params: [
               {
@@ -574,16 +1130,18 @@ export default function AbiDynamicUI() {
   }
 
   // Parse ABI
-  function tryParseAbi() {
+  function tryParseAbi(text: string = abiText) {
     const toastId = toast.loading('Parsing ABI...');
     try {
-      const cleanText = abiText.replace(/,\s*([\]}])/g, '$1')
-      const parsed = JSON.parse(cleanText);
-      if (!Array.isArray(parsed)) throw new Error("ABI is not an array");
-      setAbi(parsed as AbiItem[]);
+      const parsed = parseAbiText(text);
+      setAbi(parsed);
       setParseError(null);
       pushLog("ABI parsed successfully");
-      toast.success(`Parsed successfully! Identified ${(parsed as AbiItem[]).filter(a => a.type === 'function').length} functions`, { 
+      const issues = diagnoseAbi(parsed);
+      const errorCount = issues.reduce((n, d) => n + d.errors.length, 0);
+      const warningCount = issues.reduce((n, d) => n + d.warnings.length, 0);
+      if (errorCount + warningCount > 0) pushLog(`ABI diagnostics: ${errorCount} errors, ${warningCount} warnings`);
+      toast.success(`Parsed successfully! Identified ${parsed.filter(a => a.type === 'function').length} functions`, { 
         id: toastId, 
         icon: '📄',
         duration: 3000 
@@ -593,100 +1151,556 @@ export default function AbiDynamicUI() {
       setParseError(error.message || String(e));
       setAbi([]);
       pushLog(`ABI parsing failed: ${error.message || String(e)}`);
-      toast.error(`Parse failed: ${error.message}`, { id: toastId });
+      toast.error(`Parse failed: ${error.message.split('\n')[0]}`, { id: toastId });
     }
   }
 
-  // Filter function items from abi
-  const functions = useMemo(() => abi.filter((a) => a.type === "function"), [abi]);
+  useEffect(() => {
+    localStorage.setItem('explorer_api_base', explorerApiBase);
+    localStorage.setItem('explorer_api_key', explorerApiKey);
+  }, [explorerApiBase, explorerApiKey]);
 
-  // Construct key from function and parameters
-  function getFnKey(fn: AbiItem) {
-    const name = fn.name || "";
-    const types = (fn.inputs || []).map((i) => i.type).join(",");
-    return `${name}(${types})`;
+  useEffect(() => {
+    try {
+      localStorage.setItem(EXPLORER_ABI_CACHE_STORAGE_KEY, JSON.stringify(explorerAbiCache));
+    } catch (err) {
+      // Quota exceeded: the cache still works for this session
+      console.warn('⚠️ Failed to persist explorer ABI cache:', err);
+    }
+  }, [explorerAbiCache]);
+
+  // Fetch the verified ABI of an address from the current chain's explorer (cached per chain + address)
+  async function fetchExplorerAbi(address: string, force = false): Promise<string> {
+    if (!readChainId) throw new Error("Please connect wallet or configure a read-only RPC URL");
+    const cacheKey = `${readChainId}:${address.toLowerCase()}`;
+    const cached = explorerAbiCache[cacheKey];
+    if (cached && !force) {
+      setExplorerAbiCache((c) => cacheExplorerAbi(c, cacheKey, cached));
+      pushLog(`ABI loaded from cache for ${address}`);
+      return JSON.stringify(JSON.parse(cached), null, 2);
+    }
+
+    // Etherscan V2 serves every supported chain from one host, selected by chainid
+    const url = new URL(explorerApiBase.trim() || ETHERSCAN_V2_API);
+    url.searchParams.set("chainid", BigInt(readChainId).toString());
+    url.searchParams.set("module", "contract");
+    url.searchParams.set("action", "getabi");
+    url.searchParams.set("address", address);
+    if (explorerApiKey.trim()) url.searchParams.set("apikey", explorerApiKey.trim());
+
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Explorer responded with HTTP ${res.status}`);
+    const body = (await res.json()) as { status?: string; message?: string; result?: unknown };
+    if (body.status !== "1" || typeof body.result !== "string") {
+      throw new Error(typeof body.result === "string" ? body.result : body.message || "Unexpected explorer response");
+    }
+
+    const parsed = JSON.parse(body.result);
+    setExplorerAbiCache((c) => cacheExplorerAbi(c, cacheKey, JSON.stringify(parsed)));
+    pushLog(`ABI fetched from ${url.origin} for ${address}`);
+    return JSON.stringify(parsed, null, 2);
   }
 
-  // Update a parameter value
-  function updateParam(fnKey: string, idx: number, value: string) {
-    const key = `${fnKey}#${idx}`;
-    setParamsState((s) => ({ ...s, [key]: value }));
+  async function loadAbiFromExplorer(force = false) {
+    if (!isAddress(contractAddress)) {
+      toast.error('Please enter a valid contract address');
+      return;
+    }
+    const toastId = toast.loading('Fetching ABI from explorer...');
+    setIsFetchingAbi(true);
+    try {
+      const text = await fetchExplorerAbi(contractAddress, force);
+      setAbiText(text);
+      toast.dismiss(toastId);
+      tryParseAbi(text);
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`Explorer ABI fetch failed: ${error.message || String(e)}`);
+      toast.error(`Fetch failed: ${error.message}`, { id: toastId });
+    } finally {
+      setIsFetchingAbi(false);
+    }
   }
 
-  // Get value from paramsState and try to convert to appropriate type
-  function parseParamValue(type: string, raw: string, paramName?: string): string | boolean {
-    // Only supports basic types, arrays/structs not supported
-    if (type.startsWith("uint") || type.startsWith("int")) {
-      // Support decimal number input
-      if (raw.trim() === "") throw new Error("Empty value");
-      
-      // Check if it's an amount/value type parameter, if so auto multiply by decimals
-      const isAmountParam = paramName && (
-        paramName.toLowerCase().includes('amount') ||
-        paramName.toLowerCase().includes('value') ||
-        paramName.toLowerCase() === 'wad' ||
-        paramName.toLowerCase().includes('qty') ||
-        paramName.toLowerCase().includes('quantity')
-      );
-      
-      if (isAmountParam) {
-        // If input contains decimal point, it's human-readable format, needs conversion
-        if (raw.includes('.') || (parseFloat(raw) < 1000000 && parseFloat(raw) > 0)) {
-          const decimals = contractAddress.toLowerCase() === "0xdac17f958d2ee523a2206206994597c13d831ec7" ? 6 : 18;
-          const numValue = parseFloat(raw);
-          const bigIntValue = BigInt(Math.floor(numValue * Math.pow(10, decimals)));
-          console.log(`💰 ${paramName} Smart conversion: ${raw} → ${bigIntValue.toString()} (decimals: ${decimals})`);
-          return bigIntValue.toString();
-        }
-      }
-      
-      // Can also use BigNumber, but ethers auto-handles number strings
-      return raw;
+  // Replace the ABI with the implementation's, or add its fragments to the current one; the address stays the proxy
+  async function loadImplementationAbi(mode: "switch" | "merge") {
+    if (!proxyInfo) return;
+    const toastId = toast.loading('Fetching implementation ABI...');
+    setIsFetchingAbi(true);
+    try {
+      const implAbi = JSON.parse(await fetchExplorerAbi(proxyInfo.implementation)) as AbiItem[];
+      const next = mode === "merge" ? mergeAbis(abi, implAbi) : implAbi;
+      const text = JSON.stringify(next, null, 2);
+      setAbiText(text);
+      pushLog(`${mode === "merge" ? "Merged" : "Switched to"} implementation ABI of ${proxyInfo.implementation}`);
+      toast.dismiss(toastId);
+      tryParseAbi(text);
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`Implementation ABI fetch failed: ${error.message || String(e)}`);
+      toast.error(`Fetch failed: ${error.message}`, { id: toastId });
+    } finally {
+      setIsFetchingAbi(false);
     }
-    if (type === "address") {
-      return raw;
+  }
+
+  // Persist saved contracts on every change
+  useEffect(() => {
+    localStorage.setItem(SAVED_CONTRACTS_STORAGE_KEY, JSON.stringify(savedContracts));
+  }, [savedContracts]);
+
+  // Save the current address + ABI + chain under a name, replacing an entry with the same name
+  function saveCurrentContract() {
+    const name = saveName.trim();
+    if (!name) {
+      toast.error('Please enter a name');
+      return;
     }
-    if (type === "bool") {
-      const v = raw.toLowerCase();
-      return v === "true" || v === "1" || v === "yes";
+    if (!isAddress(contractAddress)) {
+      toast.error('Please enter a valid contract address');
+      return;
     }
-    if (type === "string") return raw;
-    if (type.startsWith("bytes")) return raw; // User needs to pass hex or string
-    // fallback
-    return raw;
+    const existing = savedContracts.find((c) => c.name === name);
+    if (existing && !window.confirm(`Overwrite saved contract "${name}"?`)) return;
+    const entry: SavedContract = {
+      id: existing?.id ?? `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      name,
+      address: contractAddress,
+      abiText,
+      chainId: readChainId,
+    };
+    setSavedContracts((list) => (existing ? list.map((c) => (c.id === existing.id ? entry : c)) : [...list, entry]));
+    setSaveName("");
+    pushLog(`Saved contract ${name}: ${contractAddress}`);
+    toast.success(`Saved "${name}"`, { icon: '📚' });
   }
 
-  // Execute function (call or send)
-  async function callFunction(fn: AbiItem) {
-    const isReadOnly = fn.stateMutability === "view" || fn.stateMutability === "pure";
-    const toastId = toast.loading(isReadOnly ? `Querying ${fn.name}...` : `Sending transaction ${fn.name}...`);
-    
-    try {
-      if (!window.ethereum) throw new Error("Please install MetaMask first");
-      if (!account) throw new Error("Please connect wallet first");
-      if (!contractAddress) throw new Error("Please enter contract address");
-      
-      // Re-fetch latest provider and signer to ensure using current network
-      console.log('🔄 Refreshing provider to ensure current network...');
-      const currentProvider = new BrowserProvider(window.ethereum);
-      const currentSigner = await currentProvider.getSigner();
-      console.log('✅ Provider updated to current network');
-      
-      const fnKey = getFnKey(fn);
-      const inputs = fn.inputs || [];
-      const args = inputs.map((input, idx) => {
-        const key = `${fnKey}#${idx}`;
-        const raw = paramsState[key] ?? "";
-        return parseParamValue(input.type, raw, input.name);
-      });
+  // Load a saved contract, switching the wallet (or the read-only RPC) to its chain when needed
+  function selectSavedContract(entry: SavedContract) {
+    setAbiText(entry.abiText);
+    setContractAddress(entry.address);
+    setResults({});
+    setSimulations({});
+    tryParseAbi(entry.abiText);
+    pushLog(`Loaded saved contract ${entry.name}: ${entry.address}`);
+    if (entry.chainId && entry.chainId !== readChainId) {
+      const target = findChainConfig(entry.chainId, chains);
+      if (target) {
+        switchChain(target);
+      } else {
+        toast.error(`Chain ${entry.chainId} is not configured, please switch manually`);
+      }
+    }
+  }
 
-      const contract = new Contract(contractAddress, abi, isReadOnly ? currentProvider : currentSigner);
+  function deleteSavedContract(entry: SavedContract) {
+    if (!window.confirm(`Delete saved contract "${entry.name}"?`)) return;
+    setSavedContracts((list) => list.filter((c) => c.id !== entry.id));
+    pushLog(`Deleted saved contract ${entry.name}`);
+  }
 
-      // view/pure -> call
+  // Filter function items from abi
+  const functions = useMemo(() => abi.filter((a) => a.type === "function"), [abi]);
+
+  const diagnostics = useMemo(() => diagnoseAbi(abi), [abi]);
+  const diagnosticErrors = diagnostics.reduce((n, d) => n + d.errors.length, 0);
+  const diagnosticWarnings = diagnostics.reduce((n, d) => n + d.warnings.length, 0);
+
+  // Filter event items from abi
+  const events = useMemo(() => abi.filter((a) => a.type === "event"), [abi]);
+
+  // Stop the live subscription when the contract, ABI, chain or read provider it was created for changes
+  useEffect(() => {
+    return () => {
+      void liveContractRef.current?.removeAllListeners().catch((err) => {
+        console.warn('⚠️ Failed to remove live event listeners:', err);
+      });
+      liveContractRef.current = null;
+      setIsLive(false);
+    };
+  }, [abi, contractAddress, chainId, ethereum, rpcProvider, rpcChainId]);
+
+  const nativeCurrency = findChainConfig(chainId, chains)?.nativeCurrency ?? DEFAULT_NATIVE_CURRENCY;
+
+  // Create the read-only provider and detect its chain, destroying the previous one when the URL changes
+  useEffect(() => {
+    if (!rpcUrl) return;
+    let cancelled = false;
+    const provider = createRpcProvider(rpcUrl);
+    localStorage.setItem('rpc_url', rpcUrl);
+    setRpcProvider(provider);
+    setRpcChainId(null);
+    setRpcError(null);
+    // An unreachable endpoint makes ethers retry forever instead of rejecting
+    withTimeout(provider.getNetwork(), 10000, 'RPC did not respond within 10s')
+      .then((network) => {
+        if (!cancelled) setRpcChainId(`0x${network.chainId.toString(16)}`);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setRpcError(err.message.split('\n')[0]);
+      });
+    return () => {
+      cancelled = true;
+      provider.destroy();
+    };
+  }, [rpcUrl]);
+
+  // Chain reads go to: the wallet's when connected, else the read-only RPC's
+  const readChainId = ethereum ? chainId : rpcChainId;
+
+  // Provider for read-only calls: the connected wallet, or the configured JSON-RPC endpoint without one
+  function getReadProvider(): JsonRpcApiProvider {
+    if (ethereum) return new BrowserProvider(ethereum);
+    if (rpcProvider) return rpcProvider;
+    throw new Error("Please connect wallet or configure a read-only RPC URL");
+  }
+
+  function applyRpcUrl(url: string) {
+    const trimmed = url.trim();
+    if (!/^(https?|wss?):\/\//.test(trimmed)) {
+      toast.error('RPC URL must start with http(s):// or ws(s)://');
+      return;
+    }
+    setRpcUrlInput(trimmed);
+    setRpcUrl(trimmed);
+    pushLog(`Read-only RPC set to ${trimmed}`);
+  }
+
+  // Persist transaction history on every change
+  useEffect(() => {
+    localStorage.setItem(TX_HISTORY_STORAGE_KEY, JSON.stringify(txHistory));
+  }, [txHistory]);
+
+  // Re-poll pending transactions of the read chain (e.g. after a reload), through the wallet or the read-only RPC
+  const pendingTxs = txHistory
+    .filter((tx) => tx.status === "pending" && tx.chainId === readChainId)
+    .map((tx) => `${tx.hash}@${tx.timestamp}`)
+    .join(",");
+  useEffect(() => {
+    const readProvider = ethereum ? new BrowserProvider(ethereum) : rpcProvider;
+    if (!readProvider || !pendingTxs) return;
+    // Hashes that looked dropped on the previous poll; only a second agreeing poll marks them dropped
+    const suspects = new Set<string>();
+    const poll = async () => {
+      for (const entry of pendingTxs.split(",")) {
+        const [hash, timestamp] = entry.split("@");
+        try {
+          const receipt = await readProvider.getTransactionReceipt(hash);
+          if (receipt) {
+            updateTxHistory(hash, receiptToHistory(receipt));
+            continue;
+          }
+          const tx = await readProvider.getTransaction(hash);
+          // Mined since the receipt lookup, or the node's receipt index lags behind: fetch the receipt again
+          if (tx?.blockNumber != null) {
+            suspects.delete(hash);
+            const minedReceipt = await readProvider.getTransactionReceipt(hash);
+            if (minedReceipt) updateTxHistory(hash, receiptToHistory(minedReceipt));
+            continue;
+          }
+          // Not mined: dropped when its nonce has been used by another transaction, or the node forgot it long ago
+          const replaced = tx !== null && (await readProvider.getTransactionCount(tx.from, "latest")) > tx.nonce;
+          const forgotten = tx === null && Date.now() - Number(timestamp) > TX_DROPPED_AFTER_MS;
+          if (!replaced && !forgotten) {
+            suspects.delete(hash);
+          } else if (!suspects.has(hash)) {
+            suspects.add(hash);
+          } else {
+            updateTxHistory(hash, { status: "dropped" });
+            console.warn(`🗑️ Transaction ${hash} ${replaced ? "was replaced (nonce already used)" : "was dropped"}`);
+          }
+        } catch (err) {
+          console.error('❌ Failed to poll transaction:', hash, err);
+        }
+      }
+    };
+    poll();
+    const interval = setInterval(poll, 10000);
+    return () => clearInterval(interval);
+  }, [ethereum, rpcProvider, pendingTxs]);
+
+  // Add a just-sent transaction to the history as pending
+  function recordSentTx(hash: string, txChainId: string, contract: string, fn: AbiItem, args: ParamValue[], overrides: Overrides) {
+    setTxHistory((h) => [
+      {
+        hash,
+        chainId: txChainId,
+        contract,
+        functionName: fn.name ?? "",
+        args: JSON.stringify(namedArgs(fn, args, overrides)),
+        status: "pending" as const,
+        blockNumber: null,
+        gasUsed: null,
+        timestamp: Date.now(),
+      },
+      ...h,
+    ].slice(0, TX_HISTORY_LIMIT));
+  }
+
+  function updateTxHistory(hash: string, changes: Partial<TxHistoryEntry>) {
+    setTxHistory((h) => h.map((tx) => (tx.hash === hash ? { ...tx, ...changes } : tx)));
+  }
+
+  const isErc20 = useMemo(() => isErc20Abi(abi), [abi]);
+  const tokenKey = readChainId && isAddress(contractAddress) ? `${readChainId}:${contractAddress.toLowerCase()}` : null;
+  const tokenInfo = isErc20 && tokenKey ? tokenInfoCache[tokenKey] ?? null : null;
+
+  // Read decimals()/symbol() once per contract + chain when the ABI looks like an ERC-20
+  useEffect(() => {
+    const readProvider = ethereum ? new BrowserProvider(ethereum) : rpcProvider;
+    if (!isErc20 || !tokenKey || tokenInfoCache[tokenKey] || !readProvider) return;
+    let cancelled = false;
+    const token = new Contract(contractAddress, ERC20_METADATA_ABI, readProvider);
+    (async () => {
+      try {
+        const decimals = Number(await token.decimals());
+        // symbol() is optional in the standard and bytes32 on some old tokens
+        const symbol = await token.symbol().then(String).catch(() => "");
+        if (cancelled) return;
+        setTokenInfoCache((c) => ({ ...c, [tokenKey]: { decimals, symbol } }));
+        pushLog(`Token detected: ${symbol || "unknown symbol"}, ${decimals} decimals`);
+      } catch (err) {
+        console.error('❌ Failed to read token decimals:', err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isErc20, tokenKey, tokenInfoCache, contractAddress, ethereum, rpcProvider]);
+
+  // Proxy detection result per chain + address, null once checked and not a proxy
+  const proxyInfo = tokenKey ? proxyInfoCache[tokenKey] ?? null : null;
+
+  // Read the EIP-1967 slots / EIP-1167 bytecode once per contract + chain
+  useEffect(() => {
+    const readProvider = ethereum ? new BrowserProvider(ethereum) : rpcProvider;
+    if (!tokenKey || tokenKey in proxyInfoCache || !readProvider) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const info = await detectProxy(readProvider, contractAddress);
+        if (cancelled) return;
+        setProxyInfoCache((c) => ({ ...c, [tokenKey]: info }));
+        if (info) pushLog(`${info.kind} proxy detected, implementation: ${info.implementation}`);
+      } catch (err) {
+        console.error('❌ Failed to detect proxy:', err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenKey, proxyInfoCache, contractAddress, ethereum, rpcProvider]);
+
+  function toggleHumanUnits(path: string) {
+    setHumanUnits((h) => ({ ...h, [path]: !h[path] }));
+  }
+
+  // Raw / token-unit switch shown next to integer fields once decimals are known
+  function renderUnitsToggle(path: string): ReactNode {
+    if (!tokenInfo) return null;
+    const human = !!humanUnits[path];
+    return (
+      <button
+        className={`text-xs font-semibold ml-2 px-2 py-1 rounded-md transition-all duration-200 ${
+          human ? "bg-emerald-100 text-emerald-700" : "bg-gray-100 text-gray-600"
+        }`}
+        onClick={() => toggleHumanUnits(path)}
+        title={human ? `Value in ${tokenInfo.symbol || "token"} units (${tokenInfo.decimals} decimals)` : "Value in raw units"}
+      >
+        {human ? `🪙 ${tokenInfo.symbol || "Token"}` : "Raw"}
+      </button>
+    );
+  }
+
+  // Construct key from function and parameters
+  function getFnKey(fn: AbiItem) {
+    const name = fn.name || "";
+    const types = (fn.inputs || []).map(formatParamType).join(",");
+    return `${name}(${types})`;
+  }
+
+  // Update a parameter value, path: fnKey#idx, with .i for tuple fields and [j] for array items
+  function updateParam(path: string, value: string) {
+    setParamsState((s) => ({ ...s, [path]: value }));
+  }
+
+  // Append a row to a dynamic array parameter
+  function addArrayItem(path: string) {
+    setArrayLengths((l) => ({ ...l, [path]: (l[path] ?? 0) + 1 }));
+  }
+
+  // Remove a row from a dynamic array parameter, shifting the values of the rows after it
+  function removeArrayItem(path: string, index: number) {
+    setParamsState((s) => removeArrayEntry(s, path, index));
+    setArrayLengths((l) => ({
+      ...removeArrayEntry(l, path, index),
+      [path]: Math.max((l[path] ?? 0) - 1, 0),
+    }));
+  }
+
+  // Get value from paramsState and try to convert to appropriate type
+  function parseParamValue(type: string, raw: string, path: string): string | boolean {
+    if (type.startsWith("uint") || type.startsWith("int")) {
+      if (raw.trim() === "") throw new Error("Empty value");
+      
+      // Field toggled to token units: scale by the contract's decimals
+      if (humanUnits[path]) {
+        if (!tokenInfo) throw new Error("Token decimals not loaded, switch the field to raw units");
+        const scaled = parseUnits(raw.trim(), tokenInfo.decimals).toString();
+        return checkIntegerRange(type, scaled);
+      }
+      
+      // Can also use BigNumber, but ethers auto-handles number strings
+      return checkIntegerRange(type, raw.trim());
+    }
+    if (type === "address") {
+      const v = raw.trim();
+      if (!isAddress(v)) throw new Error(`Invalid address "${v}"`);
+      return v;
+    }
+    if (type === "bool") return parseBool(raw);
+    if (type === "string") return raw;
+    if (type.startsWith("bytes")) {
+      // Hex is passed as-is, anything else is treated as UTF-8 text
+      const size = type === "bytes" ? null : Number(type.slice(5));
+      const bytes = isHexString(raw.trim()) ? raw.trim() : hexlify(toUtf8Bytes(raw));
+      if (size === null) return bytes;
+      if (dataLength(bytes) > size) throw new Error(`Value exceeds ${size} bytes`);
+      if (isHexString(raw.trim()) && dataLength(bytes) !== size) throw new Error(`Expected ${size} bytes of hex`);
+      return zeroPadBytes(bytes, size);
+    }
+    // fallback
+    return raw;
+  }
+
+  // Recursively build the argument for one ABI input from paramsState
+  function buildParamValue(input: AbiInput, path: string, label: string): ParamValue {
+    const arrayType = parseArrayType(input.type);
+    if (arrayType) {
+      const length = arrayType.length ?? arrayLengths[path] ?? 0;
+      const element = { ...input, type: arrayType.elementType };
+      return Array.from({ length }, (_, j) => buildParamValue(element, `${path}[${j}]`, `${label}[${j}]`));
+    }
+    if (input.type === "tuple") {
+      return (input.components || []).map((c, i) =>
+        buildParamValue(c, `${path}.${i}`, `${label}.${c.name || i}`)
+      );
+    }
+    try {
+      return parseParamValue(input.type, paramsState[path] ?? "", path);
+    } catch (e) {
+      throw new Error(`${label}: ${(e as Error).message}`);
+    }
+  }
+
+  // Recursively render the form field(s) for one ABI input
+  function renderParamInput(input: AbiInput, path: string, label: string): ReactNode {
+    const arrayType = parseArrayType(input.type);
+    if (arrayType) {
+      const isDynamic = arrayType.length === null;
+      const length = arrayType.length ?? arrayLengths[path] ?? 0;
+      const element = { ...input, type: arrayType.elementType };
+      return (
+        <div key={path} className="md:col-span-2">
+          <label className="block text-sm font-bold text-gray-800 mb-2">
+            {label}
+            <span className="text-xs font-semibold text-indigo-600 ml-2 px-2 py-1 bg-indigo-100 rounded-md">
+              {formatParamType(input)}
+            </span>
+          </label>
+          <div className="space-y-3 pl-4 border-l-4 border-indigo-200">
+            {length === 0 && (
+              <div className="text-xs text-gray-500 italic">Empty array</div>
+            )}
+            {Array.from({ length }, (_, j) => (
+              <div key={`${path}[${j}]`} className="flex items-end gap-2">
+                <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {renderParamInput(element, `${path}[${j}]`, `${label}[${j}]`)}
+                </div>
+                {isDynamic && (
+                  <button
+                    className="px-3 py-3 rounded-xl bg-red-50 hover:bg-red-100 text-red-600 font-bold text-sm transition-all duration-200"
+                    onClick={() => removeArrayItem(path, j)}
+                    title="Remove item"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            ))}
+            {isDynamic && (
+              <button
+                className="px-4 py-2 rounded-xl bg-indigo-50 hover:bg-indigo-100 text-indigo-700 font-bold text-sm transition-all duration-200"
+                onClick={() => addArrayItem(path)}
+              >
+                + Add item
+              </button>
+            )}
+          </div>
+        </div>
+      );
+    }
+    if (input.type === "tuple") {
+      return (
+        <fieldset key={path} className="md:col-span-2 border-2 border-dashed border-indigo-200 rounded-xl p-4">
+          <legend className="text-sm font-bold text-gray-800 px-2">
+            {label}
+            <span className="text-xs font-semibold text-indigo-600 ml-2 px-2 py-1 bg-indigo-100 rounded-md">
+              {formatParamType(input)}
+            </span>
+          </legend>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(input.components || []).map((c, i) =>
+              renderParamInput(c, `${path}.${i}`, c.name || `Field ${i + 1}`)
+            )}
+          </div>
+        </fieldset>
+      );
+    }
+    const isInteger = input.type.startsWith("uint") || input.type.startsWith("int");
+    return (
+      <div key={path}>
+        <label className="block text-sm font-bold text-gray-800 mb-2">
+          {label}
+          <span className="text-xs font-semibold text-indigo-600 ml-2 px-2 py-1 bg-indigo-100 rounded-md">
+            {input.type}
+          </span>
+          {isInteger && renderUnitsToggle(path)}
+        </label>
+        <input
+          className="w-full border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-3 rounded-xl font-mono text-sm transition-all duration-200 bg-white shadow-sm hover:shadow-md"
+          placeholder={isInteger && tokenInfo && humanUnits[path]
+            ? `e.g.: 1.5 (${tokenInfo.symbol || "token"} units)`
+            : placeholderForType(input.type)}
+          value={paramsState[path] ?? ""}
+          onChange={(e) => updateParam(path, e.target.value)}
+        />
+      </div>
+    );
+  }
+
+  // Execute function (call or send)
+  async function callFunction(fn: AbiItem) {
+    const isReadOnly = fn.stateMutability === "view" || fn.stateMutability === "pure";
+    const toastId = toast.loading(isReadOnly ? `Querying ${fn.name}...` : `Sending transaction ${fn.name}...`);
+    
+    try {
+      if (!contractAddress) throw new Error("Please enter contract address");
+      
+      const fnKey = getFnKey(fn);
+      const args = buildFunctionArgs(fn);
+      const overrides = buildOverrides(fn);
+
+      // view/pure -> call, through the wallet or the read-only RPC
       if (isReadOnly) {
-        const functionFragment = contract.getFunction(fn.name!);
-        const res = await functionFragment(...args);
-        const result = stringifyResult(res, fn.name);
+        const contract = new Contract(contractAddress, abi, getReadProvider());
+        const functionFragment = contract.getFunction(getFnKey(fn));
+        const res = await functionFragment.staticCallResult(...args);
+        const nodes = (fn.outputs || []).map((output, idx) =>
+          buildResultNode(output, res[idx], output.name || `#${idx}`)
+        );
+        setResults((r) => ({ ...r, [fnKey]: nodes }));
+        const result = summarizeResult(nodes);
         pushLog(`Function ${fn.name} result: ${result}`);
         toast.success(`Query success! Result: ${result.length > 50 ? result.slice(0, 50) + '...' : result}`, { 
           id: toastId, 
@@ -694,17 +1708,48 @@ export default function AbiDynamicUI() {
           duration: 4000 
         });
       } else {
-        // non-view -> send transaction
-        const functionFragment = contract.getFunction(fn.name!);
+        // non-view -> simulate, confirm, then send transaction
+        if (!ethereum || !account) throw new Error("Please connect wallet first");
+        
+        // Re-fetch latest provider and signer to ensure using current network
+        console.log('🔄 Refreshing provider to ensure current network...');
+        const currentProvider = new BrowserProvider(ethereum);
+        const currentSigner = await currentProvider.getSigner();
+        console.log('✅ Provider updated to current network');
+        
+        const contract = new Contract(contractAddress, abi, currentSigner);
+        const functionFragment = contract.getFunction(getFnKey(fn));
+        
+        toast.loading('Simulating transaction...', { id: toastId });
+        const simulation = await runSimulation(fn, functionFragment, currentProvider, args, overrides);
+        setSimulations((m) => ({ ...m, [fnKey]: simulation }));
+        pushLog(`Simulation ${fn.name}: ${describeSimulation(simulation)}`);
+        
+        const confirmed = window.confirm(
+          `${fn.name}\n\n${describeSimulation(simulation)}\n\n${simulation.success ? "Send transaction?" : "Send anyway?"}`
+        );
+        if (!confirmed) {
+          toast.error('User cancelled transaction', { id: toastId, icon: '🚫' });
+          return;
+        }
         
         toast.loading('Waiting for user confirmation...', { id: toastId });
-        const txResp = await functionFragment(...args);
+        const txResp = await functionFragment(...args, overrides);
         
         pushLog(`Transaction sent, txHash: ${txResp.hash}`);
+        recordSentTx(txResp.hash, `0x${txResp.chainId.toString(16)}`, contractAddress, fn, args, overrides);
         toast.loading(`Transaction sent, waiting for confirmation... (${txResp.hash.slice(0, 10)}...)`, { id: toastId });
         
-        // Wait for 1 confirmation
-        const receipt = await txResp.wait(1);
+        // Wait for 1 confirmation, ethers throws with the receipt attached when it reverted
+        let receipt: TransactionReceipt | null;
+        try {
+          receipt = await txResp.wait(1);
+        } catch (waitError) {
+          const failedReceipt = (waitError as { receipt?: TransactionReceipt }).receipt;
+          if (failedReceipt) updateTxHistory(txResp.hash, receiptToHistory(failedReceipt));
+          throw waitError;
+        }
+        if (receipt) updateTxHistory(txResp.hash, receiptToHistory(receipt));
         pushLog(`Transaction confirmed: blockNumber=${receipt?.blockNumber}, status=${receipt?.status}`);
         
         toast.success(`Transaction successful!`, { 
@@ -717,6 +1762,23 @@ export default function AbiDynamicUI() {
       const error = e as Error;
       pushLog(`Call failed: ${error.message || String(e)}`);
       
+      // Rejected in the wallet: not a revert, even though ethers attaches a reason
+      if ((e as { code?: unknown }).code === "ACTION_REJECTED") {
+        toast.error('User cancelled transaction', { id: toastId, icon: '🚫' });
+        return;
+      }
+      
+      // Contract reverted: show the decoded custom error / reason instead of the raw message
+      const revert = describeRevert(e);
+      if (revert) {
+        pushLog(`Revert reason: ${revert}`);
+        toast.error(`Reverted: ${revert.length > 120 ? revert.slice(0, 120) + '...' : revert}`, {
+          id: toastId,
+          duration: 6000
+        });
+        return;
+      }
+      
       // Show different prompts based on error type
       if (error.message.includes('user rejected') || error.message.includes('User denied')) {
         toast.error('User cancelled transaction', { id: toastId, icon: '🚫' });
@@ -737,53 +1799,628 @@ export default function AbiDynamicUI() {
     }
   }
 
-  function stringifyResult(res: unknown, functionName?: string): string {
-    console.log('stringifyResult', res, functionName);
+  // Convert the current form inputs of a function into call arguments
+  function buildFunctionArgs(fn: AbiItem): ParamValue[] {
+    const fnKey = getFnKey(fn);
+    return (fn.inputs || []).map((input, idx) =>
+      buildParamValue(input, `${fnKey}#${idx}`, input.name || `Param ${idx + 1}`)
+    );
+  }
+
+  // Native value of a payable call from its value field, in wei
+  function parseNativeValue(fnKey: string): bigint {
+    const raw = (paramsState[`${fnKey}#value`] ?? "").trim();
+    if (raw === "") return 0n;
+    try {
+      const value = rawValueUnits[fnKey] ? BigInt(raw) : parseUnits(raw, nativeCurrency.decimals);
+      if (value < 0n) throw new Error("negative");
+      return value;
+    } catch {
+      throw new Error(`Value: invalid ${rawValueUnits[fnKey] ? "wei" : nativeCurrency.symbol} amount "${raw}"`);
+    }
+  }
+
+  // Transaction overrides for a write call: payable value plus the advanced overrides section
+  function buildOverrides(fn: AbiItem): Overrides {
+    const fnKey = getFnKey(fn);
+    const overrides: Overrides = {};
+    if (fn.stateMutability === "payable") overrides.value = parseNativeValue(fnKey);
+
+    const field = (name: string) => (paramsState[`${fnKey}#${name}`] ?? "").trim();
+    const gasLimit = parseOverrideAmount("Gas limit", field("gasLimit"));
+    const maxFeePerGas = parseOverrideAmount("Max fee", field("maxFeePerGas"), "gwei");
+    const maxPriorityFeePerGas = parseOverrideAmount("Priority fee", field("maxPriorityFeePerGas"), "gwei");
+    const gasPrice = parseOverrideAmount("Gas price", field("gasPrice"), "gwei");
+    const nonce = parseOverrideAmount("Nonce", field("nonce"));
+
+    if (gasPrice !== null && (maxFeePerGas !== null || maxPriorityFeePerGas !== null)) {
+      throw new Error("Use either gas price (legacy) or max fee / priority fee (EIP-1559), not both");
+    }
+    if (maxFeePerGas !== null && maxPriorityFeePerGas !== null && maxPriorityFeePerGas > maxFeePerGas) {
+      throw new Error("Priority fee must not exceed max fee");
+    }
+    if (gasLimit !== null) {
+      if (gasLimit < 21000n) throw new Error("Gas limit must be at least 21000");
+      overrides.gasLimit = gasLimit;
+    }
+    if (maxFeePerGas !== null) overrides.maxFeePerGas = maxFeePerGas;
+    if (maxPriorityFeePerGas !== null) overrides.maxPriorityFeePerGas = maxPriorityFeePerGas;
+    if (gasPrice !== null) {
+      overrides.gasPrice = gasPrice;
+      overrides.type = 0;
+    }
+    if (nonce !== null) overrides.nonce = Number(nonce);
+    return overrides;
+  }
+
+  // Run staticCall + estimateGas for a write call and collect fee data for the cost estimate
+  async function runSimulation(
+    fn: AbiItem,
+    method: BaseContractMethod,
+    currentProvider: BrowserProvider,
+    args: ParamValue[],
+    overrides: Overrides
+  ): Promise<SimulationResult> {
+    const [network, feeData] = await Promise.all([currentProvider.getNetwork(), currentProvider.getFeeData()]);
+    const chain = findChainConfig(`0x${network.chainId.toString(16)}`, chains);
+    const simulation: SimulationResult = {
+      success: false,
+      returnValue: [],
+      revert: null,
+      gasEstimate: null,
+      maxFeePerGas: feeData.maxFeePerGas,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+      gasPrice: feeData.gasPrice,
+      maxCost: null,
+      value: BigInt(overrides.value ?? 0),
+      nativeCurrency: chain?.nativeCurrency ?? DEFAULT_NATIVE_CURRENCY,
+    };
+    try {
+      const res = await method.staticCallResult(...args, overrides);
+      simulation.returnValue = (fn.outputs || []).map((output, idx) =>
+        buildResultNode(output, res[idx], output.name || `#${idx}`)
+      );
+      simulation.gasEstimate = await method.estimateGas(...args, overrides);
+    } catch (e) {
+      simulation.revert = describeRevert(e) ?? (e as Error).message.split('\n')[0];
+      return simulation;
+    }
+    // Explicit fee overrides take precedence over the node's suggestion
+    if (overrides.gasPrice != null) {
+      simulation.gasPrice = BigInt(overrides.gasPrice);
+      simulation.maxFeePerGas = null;
+      simulation.maxPriorityFeePerGas = null;
+    }
+    if (overrides.maxFeePerGas != null) simulation.maxFeePerGas = BigInt(overrides.maxFeePerGas);
+    if (overrides.maxPriorityFeePerGas != null) simulation.maxPriorityFeePerGas = BigInt(overrides.maxPriorityFeePerGas);
+    const price = simulation.maxFeePerGas ?? simulation.gasPrice;
+    simulation.maxCost = price !== null ? simulation.gasEstimate * price : null;
+    simulation.success = true;
+    return simulation;
+  }
+
+  // "Simulate" button: pre-flight a write call without sending it
+  async function simulateFunction(fn: AbiItem) {
+    const toastId = toast.loading(`Simulating ${fn.name}...`);
+    try {
+      if (!ethereum) throw new Error("Please connect wallet first");
+      if (!account) throw new Error("Please connect wallet first");
+      if (!contractAddress) throw new Error("Please enter contract address");
+      
+      const currentProvider = new BrowserProvider(ethereum);
+      const currentSigner = await currentProvider.getSigner();
+      const contract = new Contract(contractAddress, abi, currentSigner);
+      const simulation = await runSimulation(
+        fn,
+        contract.getFunction(getFnKey(fn)),
+        currentProvider,
+        buildFunctionArgs(fn),
+        buildOverrides(fn)
+      );
+      setSimulations((m) => ({ ...m, [getFnKey(fn)]: simulation }));
+      pushLog(`Simulation ${fn.name}: ${describeSimulation(simulation)}`);
+      if (simulation.success) {
+        toast.success('Simulation succeeded', { id: toastId, icon: '🧪' });
+      } else {
+        toast.error(`Would revert: ${simulation.revert}`, { id: toastId, duration: 5000 });
+      }
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`Simulation failed: ${error.message || String(e)}`);
+      toast.error(`Simulation failed: ${error.message.split('\n')[0]}`, { id: toastId });
+    }
+  }
+
+  // A function with inputs joins "Read all" once any of its parameters has been filled in
+  function hasFilledInputs(fnKey: string): boolean {
+    return Object.entries(paramsState).some(([path, v]) => path.startsWith(fnKey) && /^#\d/.test(path.slice(fnKey.length)) && v.trim() !== "");
+  }
+
+  // Read every eligible view/pure function in one Multicall3 aggregate3 call, or in parallel where it is not deployed
+  async function readAllViews() {
+    const toastId = toast.loading('Reading all view functions...');
+    setIsReadingAll(true);
+    try {
+      if (!contractAddress) throw new Error("Please enter contract address");
+      const readProvider = getReadProvider();
+      const iface = new Interface(abi);
+
+      // Partially filled inputs that don't encode are reported as rows instead of being called
+      type ReadAllEntry = { fn: AbiItem; fnKey: string; callData: string | null; inputError: string | null };
+      const entries = functions
+        .filter((fn) => fn.stateMutability === "view" || fn.stateMutability === "pure")
+        .flatMap((fn): ReadAllEntry[] => {
+          const fnKey = getFnKey(fn);
+          if ((fn.inputs || []).length > 0 && !hasFilledInputs(fnKey)) return [];
+          try {
+            return [{ fn, fnKey, callData: iface.encodeFunctionData(fnKey, buildFunctionArgs(fn)), inputError: null }];
+          } catch (e) {
+            const error = e as Error & { shortMessage?: string };
+            return [{ fn, fnKey, callData: null, inputError: error.shortMessage || error.message.split('\n')[0] }];
+          }
+        });
+      if (entries.length === 0) throw new Error("No view functions to read, fill in the inputs of those that take arguments");
+      const calls = entries.filter((c): c is ReadAllEntry & { callData: string } => c.callData !== null);
+
+      const hasMulticall = calls.length > 0 && (await readProvider.getCode(MULTICALL3_ADDRESS)) !== "0x";
+      let outcomes: { success: boolean; returnData: string; error?: unknown }[];
+      if (hasMulticall) {
+        const multicall = new Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, readProvider);
+        const res = await multicall.aggregate3.staticCall(
+          calls.map((c) => ({ target: contractAddress, allowFailure: true, callData: c.callData }))
+        );
+        outcomes = (res as { success: boolean; returnData: string }[]).map((r) => ({ success: r.success, returnData: r.returnData }));
+      } else {
+        outcomes = await Promise.all(
+          calls.map((c) =>
+            readProvider.call({ to: contractAddress, data: c.callData }).then(
+              (returnData) => ({ success: true, returnData }),
+              (error: unknown) => ({ success: false, returnData: "0x", error })
+            )
+          )
+        );
+      }
+
+      const newResults: Record<string, ResultNode[]> = {};
+      const rows = entries.map((c): ReadAllRow => {
+        if (c.inputError !== null) return { fnKey: c.fnKey, success: false, summary: `Invalid input: ${c.inputError}` };
+        const outcome = outcomes[calls.findIndex((call) => call.fnKey === c.fnKey)];
+        if (!outcome.success) {
+          const error = outcome.error as { shortMessage?: string } | undefined;
+          const reason = describeRevert(outcome.error ?? { data: outcome.returnData }) ?? error?.shortMessage;
+          return { fnKey: c.fnKey, success: false, summary: reason || "Reverted without a reason" };
+        }
+        try {
+          const res = iface.decodeFunctionResult(c.fnKey, outcome.returnData);
+          const nodes = (c.fn.outputs || []).map((output, idx) => buildResultNode(output, res[idx], output.name || `#${idx}`));
+          newResults[c.fnKey] = nodes;
+          return { fnKey: c.fnKey, success: true, summary: summarizeResult(nodes) };
+        } catch (e) {
+          const error = e as Error & { shortMessage?: string };
+          return { fnKey: c.fnKey, success: false, summary: `Could not decode result: ${error.shortMessage || error.message}` };
+        }
+      });
+
+      const via = hasMulticall ? "Multicall3" : "parallel calls";
+      setResults((r) => ({ ...r, ...newResults }));
+      setReadAll({ address: contractAddress, via, rows });
+      const failed = rows.filter((row) => !row.success).length;
+      pushLog(`Read all via ${via}: ${rows.length - failed} succeeded, ${failed} failed`);
+      toast.success(`Read ${rows.length} functions via ${via}${failed ? `, ${failed} failed` : ""}`, { id: toastId, icon: '📊' });
+    } catch (e) {
+      const error = e as Error & { shortMessage?: string };
+      const errMsg = error.shortMessage || error.message || String(e);
+      pushLog(`Read all failed: ${errMsg}`);
+      toast.error(errMsg.split('\n')[0], { id: toastId });
+    } finally {
+      setIsReadingAll(false);
+    }
+  }
+
+  // Queue a write call with its current inputs instead of sending it
+  function addToQueue(fn: AbiItem) {
+    try {
+      if (!isAddress(contractAddress)) throw new Error("Please enter a valid contract address");
+      const args = buildFunctionArgs(fn);
+      const overrides = buildOverrides(fn);
+      const data = new Interface(abi).encodeFunctionData(getFnKey(fn), args);
+      setTxQueue((q) => [
+        ...q,
+        {
+          id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+          chainId: readChainId,
+          contract: contractAddress,
+          fn,
+          abi,
+          args,
+          overrides,
+          data,
+          status: "queued",
+          detail: null,
+          hash: null,
+        },
+      ]);
+      pushLog(`Queued ${fn.name} on ${contractAddress}`);
+      toast.success(`Added ${fn.name} to the queue`, { icon: '📥' });
+    } catch (e) {
+      const error = e as Error;
+      toast.error(error.message.split('\n')[0]);
+    }
+  }
+
+  function updateQueuedCall(id: string, changes: Partial<QueuedCall>) {
+    setTxQueue((q) => q.map((c) => (c.id === id ? { ...c, ...changes } : c)));
+  }
+
+  function moveQueuedCall(id: string, delta: number) {
+    setTxQueue((q) => {
+      const from = q.findIndex((c) => c.id === id);
+      const to = from + delta;
+      if (from < 0 || to < 0 || to >= q.length) return q;
+      const next = [...q];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  }
+
+  // Every queued call must target the wallet's current chain
+  function checkQueueChain(): QueuedCall[] {
+    if (!ethereum || !account) throw new Error("Please connect wallet first");
+    if (txQueue.length === 0) throw new Error("The queue is empty");
+    const wrongChain = txQueue.find((c) => c.chainId !== chainId);
+    if (wrongChain) throw new Error(`${wrongChain.fn.name} was queued on another chain, switch back or remove it`);
+    return txQueue;
+  }
+
+  // Download the queue as a Safe Transaction Builder batch, to be proposed from the Safe app
+  function exportSafeBatch() {
+    try {
+      if (txQueue.length === 0) throw new Error("The queue is empty");
+      const batchChainId = txQueue[0].chainId;
+      if (!batchChainId) throw new Error("Unknown chain, connect a wallet or configure a read-only RPC URL");
+      if (txQueue.some((c) => c.chainId !== batchChainId)) throw new Error("All queued calls must be on the same chain");
+      if (safeAddress && !isAddress(safeAddress)) throw new Error("Invalid Safe address");
+
+      const batch = buildSafeBatch(txQueue, batchChainId, safeAddress, account ?? "");
+      const url = URL.createObjectURL(new Blob([JSON.stringify(batch, null, 2)], { type: "application/json" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `safe-batch-${BigInt(batchChainId)}-${Date.now()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      pushLog(`Exported ${txQueue.length} calls as a Safe batch for chain ${BigInt(batchChainId)}`);
+      toast.success('Safe batch downloaded', { icon: '🔐' });
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+  }
+
+  // Load a Safe Transaction Builder batch into the queue to inspect, simulate or send it
+  async function importSafeBatch(file: File) {
+    try {
+      const calls = parseSafeBatch(await file.text());
+      setTxQueue((q) => [...q, ...calls]);
+      if (calls[0].chainId !== readChainId) {
+        const chain = findChainConfig(calls[0].chainId, chains);
+        toast(`Batch targets ${chain?.name ?? `chain ${BigInt(calls[0].chainId!)}`}, switch network to replay it`, { icon: '⚠️' });
+      }
+      pushLog(`Imported ${calls.length} calls from ${file.name}`);
+      toast.success(`Imported ${calls.length} calls`, { icon: '📂' });
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`Safe batch import failed: ${error.message}`);
+      toast.error(`Import failed: ${error.message}`);
+    }
+  }
+
+  // Simulate the queue as one sequence (eth_simulateV1), or each call alone where the node lacks it
+  async function simulateQueue() {
+    const toastId = toast.loading('Simulating queue...');
+    setIsRunningQueue(true);
+    try {
+      const steps = checkQueueChain();
+      const currentProvider = new BrowserProvider(ethereum!);
+      const calls = steps.map((c) => ({ from: account, to: c.contract, data: c.data, value: toQuantity(BigInt(c.overrides.value ?? 0)) }));
+
+      let outcomes: { ok: boolean; detail: string }[];
+      let sequential = true;
+      try {
+        const [block] = (await currentProvider.send("eth_simulateV1", [{ blockStateCalls: [{ calls }] }, "latest"])) as {
+          calls: { status: string; returnData: string; gasUsed: string; error?: { message?: string; data?: string } }[];
+        }[];
+        outcomes = block.calls.map((r, i) =>
+          r.status === "0x1"
+            ? { ok: true, detail: `gas ${BigInt(r.gasUsed)}` }
+            : { ok: false, detail: describeRevert({ data: r.error?.data ?? r.returnData }, steps[i].abi) ?? r.error?.message ?? "Reverted without a reason" }
+        );
+      } catch (err) {
+        console.warn('⚠️ eth_simulateV1 unavailable, simulating each call alone:', err);
+        sequential = false;
+        outcomes = await Promise.all(
+          calls.map((call, i) =>
+            currentProvider.estimateGas(call).then(
+              (gas) => ({ ok: true, detail: `gas ${gas} (simulated alone)` }),
+              (e: unknown) => ({ ok: false, detail: `${describeRevert(e, steps[i].abi) ?? (e as Error).message.split('\n')[0]} (simulated alone)` })
+            )
+          )
+        );
+      }
+
+      steps.forEach((c, i) => updateQueuedCall(c.id, { status: outcomes[i].ok ? "simulated" : "sim-failed", detail: outcomes[i].detail, hash: null }));
+      const failed = outcomes.filter((o) => !o.ok).length;
+      pushLog(`Queue simulation (${sequential ? "in sequence" : "each call alone"}): ${steps.length - failed} ok, ${failed} failed`);
+      if (failed) {
+        toast.error(`${failed} of ${steps.length} calls would fail`, { id: toastId });
+      } else {
+        toast.success(`All ${steps.length} calls simulated${sequential ? "" : " (each alone)"}`, { id: toastId, icon: '🧪' });
+      }
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`Queue simulation failed: ${error.message || String(e)}`);
+      toast.error(error.message.split('\n')[0], { id: toastId });
+    } finally {
+      setIsRunningQueue(false);
+    }
+  }
+
+  // Send the queue in order; a wallet with EIP-5792 gets it as one wallet_sendCalls batch
+  async function sendQueue() {
+    let steps: QueuedCall[];
+    try {
+      steps = checkQueueChain();
+    } catch (e) {
+      toast.error((e as Error).message);
+      return;
+    }
+    if (!window.confirm(`Send ${steps.length} transactions in order?`)) return;
+
+    const toastId = toast.loading('Sending queue...');
+    setIsRunningQueue(true);
+    steps.forEach((c) => updateQueuedCall(c.id, { status: "queued", detail: null, hash: null }));
+    try {
+      // wallet_sendCalls carries no gas, fee or nonce, so calls with such overrides go one by one
+      const hasTxOverrides = steps.some((c) => Object.keys(c.overrides).some((k) => k !== "value"));
+      const batchVersion = hasTxOverrides ? null : await getAtomicBatchVersion();
+      if (hasTxOverrides) pushLog('Queue has gas/fee/nonce overrides, sending one transaction at a time');
+      const sent = batchVersion ? await sendQueueBatch(steps, batchVersion) : await sendQueueSequential(steps);
+      if (sent === steps.length) {
+        toast.success(`All ${steps.length} transactions confirmed`, { id: toastId, icon: '🚀' });
+      } else {
+        toast.error(`Queue stopped after ${sent} of ${steps.length} transactions`, { id: toastId });
+      }
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`Queue send failed: ${error.message || String(e)}`);
+      toast.error(error.message.includes('user rejected') ? 'User cancelled transaction' : error.message.split('\n')[0], { id: toastId });
+    } finally {
+      setIsRunningQueue(false);
+    }
+  }
+
+  // One transaction at a time with explicit nonces, stopping at the first failure; returns the number confirmed
+  // A nonce override on a step is kept and the following steps count on from it
+  async function sendQueueSequential(steps: QueuedCall[]): Promise<number> {
+    const currentProvider = new BrowserProvider(ethereum!);
+    const currentSigner = await currentProvider.getSigner();
+    let nonce = await currentProvider.getTransactionCount(account!, "pending");
+    for (const [i, step] of steps.entries()) {
+      updateQueuedCall(step.id, { status: "pending" });
+      try {
+        if (step.overrides.nonce != null) nonce = Number(step.overrides.nonce);
+        const tx = await currentSigner.sendTransaction({ ...step.overrides, to: step.contract, data: step.data, nonce });
+        nonce++;
+        pushLog(`Queue ${i + 1}/${steps.length} ${step.fn.name} sent, txHash: ${tx.hash}`);
+        recordSentTx(tx.hash, chainId!, step.contract, step.fn, step.args, step.overrides);
+        updateQueuedCall(step.id, { hash: tx.hash });
+        let receipt: TransactionReceipt | null;
+        try {
+          receipt = await tx.wait(1);
+        } catch (waitError) {
+          const failedReceipt = (waitError as { receipt?: TransactionReceipt }).receipt;
+          if (failedReceipt) updateTxHistory(tx.hash, receiptToHistory(failedReceipt));
+          throw waitError;
+        }
+        if (receipt) updateTxHistory(tx.hash, receiptToHistory(receipt));
+        updateQueuedCall(step.id, { status: "confirmed", detail: `block ${receipt?.blockNumber}` });
+      } catch (e) {
+        const error = e as Error & { shortMessage?: string };
+        const reason = describeRevert(e, step.abi) ?? error.shortMessage ?? error.message.split('\n')[0];
+        updateQueuedCall(step.id, { status: "failed", detail: reason });
+        steps.slice(i + 1).forEach((rest) => updateQueuedCall(rest.id, { status: "skipped", detail: null }));
+        pushLog(`Queue stopped at ${i + 1}/${steps.length} ${step.fn.name}: ${reason}`);
+        return i;
+      }
+    }
+    return steps.length;
+  }
+
+  // EIP-5792 version in which the wallet can execute an atomic batch on the current chain, null when it cannot
+  // ("0x0" entries apply to every chain; v2 is preferred when both are reported)
+  async function getAtomicBatchVersion(): Promise<AtomicBatchVersion | null> {
+    type ChainCapabilities = { atomic?: { status?: string }; atomicBatch?: { supported?: boolean } };
+    let capabilities: Record<string, ChainCapabilities>;
+    try {
+      capabilities = (await ethereum!.request({ method: "wallet_getCapabilities", params: [account] })) as Record<string, ChainCapabilities>;
+    } catch {
+      // Wallet without EIP-5792
+      return null;
+    }
+    const forChain = Object.entries(capabilities ?? {}).flatMap(([id, c]) => {
+      try {
+        return BigInt(id) === 0n || BigInt(id) === BigInt(chainId!) ? [c] : [];
+      } catch {
+        return [];
+      }
+    });
+    // "atomic" in EIP-5792 v2, "atomicBatch" in v1
+    if (forChain.some((c) => c?.atomic?.status === "supported" || c?.atomic?.status === "ready")) return "2.0.0";
+    if (forChain.some((c) => c?.atomicBatch?.supported === true)) return "1.0";
+    return null;
+  }
+
+  // EIP-5792: hand the whole queue to the wallet as an atomic batch, then poll wallet_getCallsStatus for the receipts
+  async function sendQueueBatch(steps: QueuedCall[], version: AtomicBatchVersion): Promise<number> {
+    const calls = steps.map((c) => ({ to: c.contract, data: c.data, value: toQuantity(BigInt(c.overrides.value ?? 0)) }));
+    const result = await ethereum!.request({
+      method: "wallet_sendCalls",
+      params: [
+        version === "2.0.0"
+          // All or nothing, so a failing call cannot be followed by the rest
+          ? { version, chainId, from: account, atomicRequired: true, calls }
+          // v1 has no atomicRequired: a wallet reporting atomicBatch executes batches atomically
+          : { version, chainId, from: account, calls },
+      ],
+    });
+    const batchId = typeof result === "string" ? result : (result as { id: string }).id;
+    pushLog(`Queue sent as wallet_sendCalls batch ${batchId}`);
+    steps.forEach((c) => updateQueuedCall(c.id, { status: "pending" }));
+
+    type CallsStatus = { status: number | string; receipts?: { transactionHash: string; status: string; blockNumber: string; gasUsed: string }[] };
+    let callsStatus: CallsStatus;
+    for (let attempt = 0; ; attempt++) {
+      callsStatus = (await ethereum!.request({ method: "wallet_getCallsStatus", params: [batchId] })) as CallsStatus;
+      // 100 in EIP-5792 v2, "PENDING" in v1
+      if (callsStatus.status !== 100 && callsStatus.status !== "PENDING") break;
+      if (attempt >= 150) throw new Error(`Batch ${batchId} still pending after 5 minutes`);
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    }
+
+    const receipts = callsStatus.receipts ?? [];
+    let confirmed = 0;
+    for (const [i, step] of steps.entries()) {
+      // Atomic batches may come back as a single receipt
+      const receipt = receipts[i] ?? (receipts.length === 1 ? receipts[0] : undefined);
+      if (!receipt) {
+        updateQueuedCall(step.id, { status: confirmed === i ? "failed" : "skipped", detail: `batch status ${callsStatus.status}` });
+        continue;
+      }
+      const ok = BigInt(receipt.status) === 1n;
+      if (receipts[i]) recordSentTx(receipt.transactionHash, chainId!, step.contract, step.fn, step.args, step.overrides);
+      updateTxHistory(receipt.transactionHash, {
+        status: ok ? "success" : "failed",
+        blockNumber: Number(BigInt(receipt.blockNumber)),
+        gasUsed: BigInt(receipt.gasUsed).toString(),
+      });
+      updateQueuedCall(step.id, {
+        status: ok ? "confirmed" : "failed",
+        detail: `block ${BigInt(receipt.blockNumber)}`,
+        hash: receipt.transactionHash,
+      });
+      if (ok && confirmed === i) confirmed++;
+    }
+    pushLog(`Queue batch ${batchId}: ${confirmed}/${steps.length} confirmed`);
+    return confirmed;
+  }
+
+  // Selector and calldata for the function's current inputs, or why they cannot be encoded yet
+  function encodeCalldata(fn: AbiItem): { selector: string | null; calldata: string | null; error: string | null } {
+    let fragment: FunctionFragment;
+    try {
+      fragment = FunctionFragment.from(fn);
+    } catch (e) {
+      return { selector: null, calldata: null, error: (e as Error).message };
+    }
+    try {
+      const calldata = new Interface([fragment]).encodeFunctionData(fragment, buildFunctionArgs(fn));
+      return { selector: fragment.selector, calldata, error: null };
+    } catch (e) {
+      const error = e as Error & { shortMessage?: string };
+      return { selector: fragment.selector, calldata: null, error: error.shortMessage || error.message };
+    }
+  }
+
+  // Decode pasted calldata against the ABI and fill the matching function card with its arguments
+  function decodeCalldata() {
+    try {
+      const data = calldataInput.trim();
+      if (!isHexString(data) || dataLength(data) < 4) throw new Error("Calldata must be hex starting with a 4-byte selector");
+      const parsed = new Interface(abi).parseTransaction({ data });
+      if (!parsed) throw new Error(`Selector ${dataSlice(data, 0, 4)} is not in the ABI`);
+      // Decode with the matched fragment; the card is located by selector since its key keeps the ABI's type spelling
+      const { fragment } = parsed;
+      const fn = functions.find((f) => FunctionFragment.from(f).selector === fragment.selector);
+      if (!fn) throw new Error(`${parsed.signature} is not in the ABI`);
+
+      const fnKey = getFnKey(fn);
+      const inputs = (JSON.parse(fragment.format("json")) as AbiItem).inputs ?? [];
+      const params: Record<string, string> = {};
+      const lengths: Record<string, number> = {};
+      inputs.forEach((input, idx) => flattenParamValue(input, parsed.args[idx], `${fnKey}#${idx}`, params, lengths));
+      // Replace the card's previous arguments, keep its value and overrides
+      const isInputPath = (path: string) => path.startsWith(fnKey) && /^#\d/.test(path.slice(fnKey.length));
+      setParamsState((p) => ({ ...Object.fromEntries(Object.entries(p).filter(([path]) => !isInputPath(path))), ...params }));
+      setArrayLengths((l) => ({ ...Object.fromEntries(Object.entries(l).filter(([path]) => !isInputPath(path))), ...lengths }));
+      setHumanUnits((h) => Object.fromEntries(Object.entries(h).filter(([path]) => !isInputPath(path))));
+
+      setDecodedCalldata({
+        fnKey,
+        selector: parsed.selector,
+        nodes: inputs.map((input, idx) => buildResultNode(input, parsed.args[idx], input.name || `#${idx}`)),
+      });
+      document.getElementById(`fn-${fnKey}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      pushLog(`Calldata decoded as ${fnKey}, inputs filled in`);
+      toast.success(`Decoded ${fragment.name}, inputs filled in`, { icon: '🧬' });
+    } catch (e) {
+      const error = e as Error & { shortMessage?: string };
+      setDecodedCalldata(null);
+      toast.error(error.shortMessage || error.message);
+    }
+  }
+
+  // Decode revert data from an error: Error(string), Panic(uint256) or a custom error from the ABI
+  function describeRevert(error: unknown, errorAbi: AbiItem[] = abi): string | null {
+    const data = extractRevertData(error);
+    if (!data) {
+      // Some nodes only return the reason string without data; other errors (e.g. ACTION_REJECTED) carry an unrelated reason
+      const { code, reason } = error as { code?: unknown; reason?: unknown };
+      return code === "CALL_EXCEPTION" && typeof reason === "string" && reason ? reason : null;
+    }
+    const selector = dataSlice(data, 0, 4);
+    try {
+      if (selector === ERROR_STRING_SELECTOR) {
+        const [reason] = AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(data, 4));
+        return String(reason);
+      }
+      if (selector === PANIC_SELECTOR) {
+        const [code] = AbiCoder.defaultAbiCoder().decode(["uint256"], dataSlice(data, 4));
+        const hex = `0x${(code as bigint).toString(16).padStart(2, "0")}`;
+        return `Panic(${hex}): ${PANIC_REASONS[Number(code)] ?? "unknown panic code"}`;
+      }
+    } catch (err) {
+      // Malformed Error(string) / Panic(uint256) payload
+      console.error('❌ Failed to decode revert data:', err);
+      return `Malformed revert data ${data}`;
+    }
+    try {
+      const parsed = new Interface(errorAbi).parseError(data);
+      if (parsed) {
+        const args = parsed.fragment.inputs.map((input, i) =>
+          `${input.name ? `${input.name}: ` : ""}${stringifyResult(parsed.args[i])}`
+        );
+        return `${parsed.name}(${args.join(", ")})`;
+      }
+    } catch (err) {
+      console.error('❌ Failed to decode custom error:', err);
+    }
+    return `Unknown custom error ${selector} (not in ABI)`;
+  }
+
+  function stringifyResult(res: unknown): string {
     try {
       // Handle arrays
       if (Array.isArray(res)) {
-        return JSON.stringify(res.map((r) => stringifyResult(r, functionName)));
+        return JSON.stringify(res.map((r) => stringifyResult(r)));
       }
       
-      // Determine decimals based on contract address
-      const getDecimals = () => {
-        // USDT uses 6 decimals
-        if (contractAddress.toLowerCase() === "0xdac17f958d2ee523a2206206994597c13d831ec7") {
-          return 6;
-        }
-        // Other ERC20 tokens default to 18 decimals
-        return 18;
-      };
-      
       // Handle BigInt
       if (typeof res === "bigint") {
-        const rawValue = res.toString();
-        // If balance-related function, show converted value
-        if (functionName && (
-          functionName.toLowerCase().includes('balance') || 
-          functionName.toLowerCase().includes('supply')
-        )) {
-          const decimals = getDecimals();
-          const converted = Number(res) / Math.pow(10, decimals);
-          return `${converted.toLocaleString('en-US', { maximumFractionDigits: 6 })} (raw: ${rawValue})`;
-        }
-        return rawValue;
+        return res.toString();
       }
       
       // Handle objects (including BigNumber)
       if (res && typeof res === "object") {
         if ("_isBigNumber" in res || "toString" in res) {
-          const rawValue = (res as { toString: () => string }).toString();
-          // If balance-related function, show converted value
-          if (functionName && (
-            functionName.toLowerCase().includes('balance') || 
-            functionName.toLowerCase().includes('supply')
-          )) {
-            const decimals = getDecimals();
-            const converted = Number(rawValue) / Math.pow(10, decimals);
-            return `${converted.toLocaleString('en-US', { maximumFractionDigits: 6 })} (raw: ${rawValue})`;
-          }
-          return rawValue;
+          return (res as { toString: () => string }).toString();
         }
         // Receipt-like
         return JSON.stringify(res, (_, value) => 
@@ -797,6 +2434,295 @@ export default function AbiDynamicUI() {
     }
   }
 
+  // Decode one return value into a tree following the ABI output description
+  function buildResultNode(output: AbiInput, value: unknown, label: string): ResultNode {
+    const type = formatParamType(output);
+    const arrayType = parseArrayType(output.type);
+    if (arrayType) {
+      const element = { ...output, type: arrayType.elementType };
+      const items = Array.from(value as ArrayLike<unknown>);
+      return {
+        label,
+        type,
+        children: items.map((item, j) => buildResultNode(element, item, `[${j}]`)),
+      };
+    }
+    if (output.type === "tuple") {
+      const fields = Array.from(value as ArrayLike<unknown>);
+      return {
+        label,
+        type,
+        children: (output.components || []).map((c, i) =>
+          buildResultNode(c, fields[i], c.name || `#${i}`)
+        ),
+      };
+    }
+    const raw = typeof value === "bigint" ? value.toString() : String(value);
+    return { label, type, value: stringifyResult(value), raw };
+  }
+
+  async function copyToClipboard(text: string, label: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`Copied ${label}`, { icon: '📋', duration: 1500 });
+    } catch (e) {
+      const error = e as Error;
+      toast.error(`Copy failed: ${error.message}`);
+    }
+  }
+
+  // Recursively render a decoded result node with a copy button per field
+  function renderResultNode(node: ResultNode, path: string): ReactNode {
+    const copyText = node.children ? JSON.stringify(resultNodeToJson(node)) : node.raw ?? "";
+    const isInteger = node.type.startsWith("uint") || node.type.startsWith("int");
+    const displayValue = isInteger && tokenInfo && humanUnits[path] && node.raw
+      ? `${formatUnits(node.raw, tokenInfo.decimals)} ${tokenInfo.symbol}`.trim()
+      : node.value;
+    return (
+      <div key={path} className="text-sm">
+        <div className="flex items-start gap-2 py-1">
+          <span className="font-bold text-gray-800 shrink-0">{node.label}</span>
+          <span className="text-xs font-semibold text-purple-600 px-2 py-0.5 bg-purple-100 rounded-md shrink-0">
+            {node.type}
+          </span>
+          {isInteger && renderUnitsToggle(path)}
+          {!node.children && (
+            <span className="font-mono text-gray-900 break-all flex-1">{displayValue}</span>
+          )}
+          {node.children && <span className="flex-1" />}
+          <button
+            className="text-xs px-2 py-0.5 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 font-semibold shrink-0 transition-all duration-200"
+            onClick={() => copyToClipboard(copyText, node.label)}
+            title="Copy value"
+          >
+            📋 Copy
+          </button>
+        </div>
+        {node.children && (
+          <div className="pl-4 border-l-2 border-purple-200">
+            {node.children.length === 0 && (
+              <div className="text-xs text-gray-500 italic py-1">Empty</div>
+            )}
+            {node.children.map((child, i) => renderResultNode(child, `${path}.${i}`))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Decode a raw log with the ABI events, null when it matches none of them
+  function decodeEventLog(iface: Interface, log: Log, live: boolean): DecodedEventLog | null {
+    let fragment: EventFragment | null = null;
+    let values: Result | null = null;
+    const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+    if (parsed) {
+      fragment = parsed.fragment;
+      values = parsed.args;
+    } else {
+      // Anonymous events have no topic0 to match, try those whose indexed inputs fit the topics
+      for (const candidate of iface.fragments) {
+        if (!(candidate instanceof EventFragment) || !candidate.anonymous) continue;
+        if (candidate.inputs.filter((input) => input.indexed).length !== log.topics.length) continue;
+        try {
+          values = iface.decodeEventLog(candidate, log.data, log.topics);
+          fragment = candidate;
+          break;
+        } catch {
+          // Not this one
+        }
+      }
+    }
+    if (!fragment || !values) return null;
+    const inputs = (JSON.parse(fragment.format("json")) as AbiItem).inputs ?? [];
+    const fields = inputs.map((input, i) => {
+      const value = values[i];
+      const label = input.name || `#${i}`;
+      // Indexed dynamic values (string, bytes, arrays, tuples) are only available as their hash
+      if (value instanceof Indexed) {
+        return { label, type: `${formatParamType(input)} (hashed)`, value: value.hash ?? "", raw: value.hash ?? "" };
+      }
+      return buildResultNode(input, value, label);
+    });
+    return {
+      id: `${log.transactionHash}:${log.index}`,
+      name: fragment.name,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      fields,
+      live,
+    };
+  }
+
+  // A looked-up transaction was decoded for one chain and ABI, drop it when either changes
+  useEffect(() => {
+    setTxLookup(null);
+  }, [readChainId, abi]);
+
+  // Fetch a transaction and its receipt, then decode input, logs and (when it failed) the revert reason
+  async function lookupTransaction() {
+    const hash = txLookupHash.trim();
+    if (!isHexString(hash, 32)) {
+      toast.error('Please enter a 32-byte transaction hash');
+      return;
+    }
+    const toastId = toast.loading('Looking up transaction...');
+    setIsLookingUpTx(true);
+    try {
+      const readProvider = getReadProvider();
+      const [tx, receipt] = await Promise.all([readProvider.getTransaction(hash), readProvider.getTransactionReceipt(hash)]);
+      if (!tx) throw new Error("Transaction not found on this chain");
+      const iface = new Interface(abi);
+
+      let call: DecodedCalldata | null = null;
+      try {
+        const parsed = dataLength(tx.data) >= 4 ? iface.parseTransaction({ data: tx.data, value: tx.value }) : null;
+        if (parsed) {
+          const inputs = (JSON.parse(parsed.fragment.format("json")) as AbiItem).inputs ?? [];
+          call = {
+            fnKey: parsed.signature,
+            selector: parsed.selector,
+            nodes: inputs.map((input, idx) => buildResultNode(input, parsed.args[idx], input.name || `#${idx}`)),
+          };
+        }
+      } catch (err) {
+        // Selector matches but the arguments don't decode with this ABI
+        console.warn('⚠️ Failed to decode transaction input:', err);
+      }
+
+      const logs = (receipt?.logs ?? []).map((log) => {
+        let decoded: DecodedEventLog | null = null;
+        try {
+          decoded = decodeEventLog(iface, log, false);
+        } catch (err) {
+          console.warn('⚠️ Failed to decode log:', log.index, err);
+        }
+        return { index: log.index, address: log.address, topic0: log.topics[0] ?? null, decoded };
+      });
+
+      // Replay a failed transaction as a call on the state before its block to recover the reason
+      let revert: string | null = null;
+      if (receipt && receipt.status === 0) {
+        try {
+          await readProvider.call({
+            from: tx.from,
+            to: tx.to,
+            data: tx.data,
+            value: tx.value,
+            gasLimit: tx.gasLimit,
+            blockTag: receipt.blockNumber - 1,
+          });
+          revert = "Replay did not revert (the failure depends on earlier transactions in the block)";
+        } catch (e) {
+          const error = e as Error & { shortMessage?: string };
+          revert = describeRevert(e) ?? error.shortMessage ?? error.message.split('\n')[0];
+        }
+      }
+
+      setTxLookup({
+        hash: tx.hash,
+        from: tx.from,
+        to: tx.to,
+        value: tx.value,
+        blockNumber: receipt?.blockNumber ?? tx.blockNumber,
+        status: !receipt ? "pending" : receipt.status === null ? "mined" : receipt.status === 1 ? "success" : "failed",
+        gasUsed: receipt?.gasUsed ?? null,
+        gasLimit: tx.gasLimit,
+        effectiveGasPrice: receipt?.gasPrice ?? null,
+        fee: receipt?.fee ?? null,
+        nativeCurrency: findChainConfig(readChainId, chains)?.nativeCurrency ?? DEFAULT_NATIVE_CURRENCY,
+        call,
+        selector: dataLength(tx.data) >= 4 ? dataSlice(tx.data, 0, 4) : null,
+        revert,
+        logs,
+      });
+      pushLog(`Looked up ${hash}: ${call ? call.fnKey : "input not in ABI"}, ${logs.length} logs`);
+      toast.success('Transaction loaded', { id: toastId, icon: '🔎' });
+    } catch (e) {
+      const error = e as Error & { shortMessage?: string };
+      setTxLookup(null);
+      pushLog(`Transaction lookup failed: ${error.shortMessage || error.message}`);
+      toast.error(error.shortMessage || error.message.split('\n')[0], { id: toastId });
+    } finally {
+      setIsLookingUpTx(false);
+    }
+  }
+
+  // Build the topic filter for the selected event from the indexed-argument inputs
+  function getEventFilter(contract: Contract) {
+    if (selectedEvent === "*") return "*";
+    const ev = events.find((e) => getFnKey(e) === selectedEvent);
+    if (!ev) throw new Error(`Event ${selectedEvent} not found in ABI`);
+    const args = (ev.inputs || []).map((input, idx) => {
+      const path = `event:${selectedEvent}#${idx}`;
+      if (!input.indexed || (paramsState[path] ?? "").trim() === "") return null;
+      return buildParamValue(input, path, input.name || `Param ${idx + 1}`);
+    });
+    return contract.getEvent(selectedEvent)(...args);
+  }
+
+  // Query historical logs over the block range
+  async function queryEvents() {
+    const toastId = toast.loading('Querying event logs...');
+    setIsQueryingEvents(true);
+    try {
+      if (!contractAddress) throw new Error("Please enter contract address");
+      const currentProvider = getReadProvider();
+      const contract = new Contract(contractAddress, abi, currentProvider);
+      const filter = getEventFilter(contract);
+
+      const latest = await currentProvider.getBlockNumber();
+      const to = toBlock.trim() === "" ? latest : parseBlockNumber(toBlock, latest);
+      // Default to the last 5000 blocks, most public RPCs reject larger ranges
+      const from = fromBlock.trim() === "" ? Math.max(to - 4999, 0) : parseBlockNumber(fromBlock, latest);
+      if (from > to) throw new Error("From block must not be after to block");
+
+      const rawLogs = await contract.queryFilter(filter, from, to);
+      const decoded = rawLogs
+        .map((log) => decodeEventLog(contract.interface, log, false))
+        .filter((log): log is DecodedEventLog => log !== null)
+        .reverse();
+      setEventLogs(mergeEventLogs(decoded, []));
+      pushLog(`Queried ${selectedEvent === "*" ? "all events" : selectedEvent} in blocks ${from}-${to}: ${decoded.length} logs`);
+      toast.success(`Found ${decoded.length} logs`, { id: toastId, icon: '📡' });
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`Event query failed: ${error.message || String(e)}`);
+      toast.error(`Query failed: ${error.message.split('\n')[0]}`, { id: toastId });
+    } finally {
+      setIsQueryingEvents(false);
+    }
+  }
+
+  // Start or stop the live subscription for the selected event
+  async function toggleLiveEvents() {
+    if (liveContractRef.current) {
+      await liveContractRef.current.removeAllListeners();
+      liveContractRef.current = null;
+      setIsLive(false);
+      pushLog("Live event subscription stopped");
+      return;
+    }
+    try {
+      if (!contractAddress) throw new Error("Please enter contract address");
+      const contract = new Contract(contractAddress, abi, getReadProvider());
+      const filter = getEventFilter(contract);
+      await contract.on(filter, (...args: unknown[]) => {
+        // The payload is always the last listener argument
+        const payload = args[args.length - 1] as ContractEventPayload;
+        const decoded = decodeEventLog(contract.interface, payload.log, true);
+        if (decoded) setEventLogs((l) => mergeEventLogs([decoded], l));
+      });
+      liveContractRef.current = contract;
+      setIsLive(true);
+      pushLog(`Live subscription started: ${selectedEvent === "*" ? "all events" : selectedEvent}`);
+      toast.success('Listening for new events', { icon: '📡' });
+    } catch (e) {
+      const error = e as Error;
+      pushLog(`Live subscription failed: ${error.message || String(e)}`);
+      toast.error(`Subscribe failed: ${error.message}`);
+    }
+  }
+
   function pushLog(msg: string) {
     setLogs((l) => [new Date().toLocaleString() + " - " + msg, ...l].slice(0, 200));
   }
@@ -842,15 +2768,40 @@ export default function AbiDynamicUI() {
         <div className="bg-white/80 backdrop-blur-xl rounded-2xl shadow-xl p-6 mb-8 border border-white/60">
           <div className="flex flex-wrap gap-3 items-center">
             <div className="flex-1 min-w-[200px]">
-              <div className="flex gap-3">
-                <button
-                  className="flex-1 px-6 py-3 rounded-xl bg-gradient-to-r from-blue-600 via-blue-700 to-indigo-700 text-white font-bold shadow-lg hover:shadow-xl transition-shadow duration-300 flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
-                  onClick={connectWallet}
-                  disabled={!!account}
-                >
-                  <span className="text-2xl">🦊</span>
-                  <span>{account ? "Connected" : "Connect Wallet"}</span>
-                </button>
+              <div className="flex flex-wrap gap-3">
+                {account ? (
+                  <button
+                    className="flex-1 px-6 py-3 rounded-xl bg-gradient-to-r from-blue-600 via-blue-700 to-indigo-700 text-white font-bold shadow-lg flex items-center justify-center gap-2 opacity-60 cursor-not-allowed"
+                    disabled
+                  >
+                    {selectedWallet?.info.icon
+                      ? <img src={selectedWallet.info.icon} alt="" className="w-6 h-6" />
+                      : <span className="text-2xl">🦊</span>}
+                    <span>Connected{selectedWallet ? ` · ${selectedWallet.info.name}` : ""}</span>
+                  </button>
+                ) : wallets.length === 0 ? (
+                  <button
+                    className="flex-1 px-6 py-3 rounded-xl bg-gradient-to-r from-blue-600 via-blue-700 to-indigo-700 text-white font-bold shadow-lg flex items-center justify-center gap-2 opacity-60 cursor-not-allowed"
+                    disabled
+                  >
+                    <span className="text-2xl">🦊</span>
+                    <span>No wallet detected</span>
+                  </button>
+                ) : (
+                  wallets.map((wallet) => (
+                    <button
+                      key={wallet.info.uuid}
+                      className="flex-1 px-6 py-3 rounded-xl bg-gradient-to-r from-blue-600 via-blue-700 to-indigo-700 text-white font-bold shadow-lg hover:shadow-xl transition-shadow duration-300 flex items-center justify-center gap-2"
+                      onClick={() => connectWallet(wallet)}
+                      title={wallet.info.rdns}
+                    >
+                      {wallet.info.icon
+                        ? <img src={wallet.info.icon} alt="" className="w-6 h-6" />
+                        : <span className="text-2xl">🦊</span>}
+                      <span>Connect {wallet.info.name}</span>
+                    </button>
+                  ))
+                )}
                 {account && (
                   <button 
                     className="px-4 py-3 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium transition-all duration-200 hover:scale-105 transform" 
@@ -896,7 +2847,7 @@ export default function AbiDynamicUI() {
               <div className="flex items-center justify-between mb-4">
                 <label className="flex items-center gap-2 font-bold text-gray-800 text-xl">
                   <span className="text-2xl">📄</span>
-                  <span>ABI JSON</span>
+                  <span>ABI</span>
                 </label>
                 <span className="text-xs bg-blue-100 text-blue-700 px-3 py-1 rounded-full font-semibold">
                   Required
@@ -907,12 +2858,12 @@ export default function AbiDynamicUI() {
                 value={abiText}
                 onChange={(e) => setAbiText(e.target.value)}
                 className="w-full border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-4 rounded-xl font-mono text-sm transition-all duration-200 resize-none bg-gray-50 hover:bg-white shadow-inner"
-                placeholder='Paste contract ABI JSON array...'
+                placeholder={'Paste an ABI JSON array, a Foundry/Hardhat artifact, human-readable lines or a Solidity interface, e.g.\nfunction transfer(address to, uint256 amount) returns (bool)'}
               />
               <div className="flex flex-wrap gap-3 mt-4">
                 <button 
                   className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold shadow-lg hover:shadow-xl hover:scale-105 transform transition-all duration-300 flex items-center gap-2" 
-                  onClick={tryParseAbi}
+                  onClick={() => tryParseAbi()}
                 >
                   <span>🔍</span>
                   <span>Parse ABI</span>
@@ -972,7 +2923,7 @@ export default function AbiDynamicUI() {
                     <span className="text-2xl">❌</span>
                     <div>
                       <div className="font-bold mb-1">Parse Error</div>
-                      <div className="text-red-700">{parseError}</div>
+                      <div className="text-red-700 whitespace-pre-line">{parseError}</div>
                     </div>
                   </div>
                 </div>
@@ -988,10 +2939,98 @@ export default function AbiDynamicUI() {
                   </div>
                 </div>
               )}
+              {abi.length > 0 && !parseError && (
+                <div className="mt-4">
+                  <button
+                    className="text-sm font-bold text-gray-600 hover:text-indigo-700 transition-all duration-200"
+                    onClick={() => setShowDiagnostics((v) => !v)}
+                  >
+                    {showDiagnostics ? "▾" : "▸"} 🩺 ABI diagnostics
+                    <span className={`ml-2 ${diagnosticErrors > 0 ? "text-red-600" : "text-gray-500"}`}>{diagnosticErrors} errors</span>
+                    <span className={`ml-2 ${diagnosticWarnings > 0 ? "text-amber-600" : "text-gray-500"}`}>{diagnosticWarnings} warnings</span>
+                  </button>
+                  {showDiagnostics && (
+                    <div className="mt-2 max-h-80 overflow-y-auto border border-gray-200 rounded-xl divide-y divide-gray-100 bg-gray-50">
+                      {diagnostics.map((d) => (
+                        <div key={d.index} className="p-3 text-xs">
+                          <div className="flex items-center gap-2">
+                            <span className="text-gray-400 w-8">#{d.index}</span>
+                            <span className="font-mono font-bold text-gray-800 flex-1 break-all">{d.label}</span>
+                            {d.selector && (
+                              <span className="font-mono text-indigo-600 break-all" title={d.selector.length > 10 ? "Event topic" : "Selector"}>
+                                {d.selector}
+                              </span>
+                            )}
+                          </div>
+                          {d.errors.map((msg, i) => (
+                            <div key={`e${i}`} className="mt-1 ml-10 text-red-600">❌ {msg}</div>
+                          ))}
+                          {d.warnings.map((msg, i) => (
+                            <div key={`w${i}`} className="mt-1 ml-10 text-amber-600">⚠️ {msg}</div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
-            {/* Right Side Configuration */}
-            <div className="space-y-6">
+            {/* Right Side Configuration */}
+            <div className="space-y-6">
+              {/* Saved Contracts */}
+              <div>
+                <label className="flex items-center gap-2 font-bold text-gray-800 text-xl mb-4">
+                  <span className="text-2xl">📚</span>
+                  <span>Saved Contracts</span>
+                </label>
+                <div className="flex gap-2 mb-3">
+                  <input
+                    className="flex-1 min-w-0 border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-2 rounded-xl text-sm bg-gray-50 hover:bg-white"
+                    value={saveName}
+                    onChange={(e) => setSaveName(e.target.value)}
+                    placeholder="Name, e.g. Router (Sepolia)"
+                  />
+                  <button
+                    className="px-4 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold text-sm shadow-md hover:shadow-lg transition-all duration-200"
+                    onClick={saveCurrentContract}
+                  >
+                    💾 Save
+                  </button>
+                </div>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {savedContracts.length === 0 && (
+                    <div className="text-xs text-gray-500 italic">No saved contracts yet</div>
+                  )}
+                  {savedContracts.map((entry) => {
+                    const chain = findChainConfig(entry.chainId, chains);
+                    const isActive = entry.address.toLowerCase() === contractAddress.toLowerCase() && entry.chainId === readChainId;
+                    return (
+                      <div
+                        key={entry.id}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-xl border-2 transition-all duration-200 ${
+                          isActive ? "border-indigo-400 bg-indigo-50" : "border-slate-200 bg-slate-50 hover:border-indigo-300"
+                        }`}
+                      >
+                        <button className="flex-1 min-w-0 text-left" onClick={() => selectSavedContract(entry)}>
+                          <div className="font-bold text-sm text-gray-800 truncate">{entry.name}</div>
+                          <div className="text-xs text-gray-500 truncate">
+                            {chain ? `${chain.icon} ${chain.name}` : entry.chainId ?? "Any chain"} · <span className="font-mono">{entry.address.slice(0, 6)}...{entry.address.slice(-4)}</span>
+                          </div>
+                        </button>
+                        <button
+                          className="text-xs px-2 py-1 rounded-md text-red-500 hover:bg-red-100"
+                          onClick={() => deleteSavedContract(entry)}
+                          title="Delete"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
               {/* Contract Address */}
               <div>
                 <div className="flex items-center justify-between mb-4">
@@ -1009,12 +3048,99 @@ export default function AbiDynamicUI() {
                   onChange={(e) => setContractAddress(e.target.value)}
                   placeholder="0x..."
                 />
+                <div className="mt-2 flex items-center gap-2">
+                  <button
+                    className="px-4 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold text-sm shadow-md hover:shadow-lg transition-all duration-200 disabled:opacity-60"
+                    onClick={() => loadAbiFromExplorer()}
+                    disabled={isFetchingAbi}
+                  >
+                    🔎 Load ABI from explorer
+                  </button>
+                  {readChainId && isAddress(contractAddress) && explorerAbiCache[`${readChainId}:${contractAddress.toLowerCase()}`] && (
+                    <button
+                      className="px-3 py-2 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold text-sm disabled:opacity-60"
+                      onClick={() => loadAbiFromExplorer(true)}
+                      disabled={isFetchingAbi}
+                      title="Cached, fetch again"
+                    >
+                      ↻
+                    </button>
+                  )}
+                  <button
+                    className="ml-auto text-sm font-bold text-gray-600 hover:text-indigo-700 transition-all duration-200"
+                    onClick={() => setShowExplorerSettings((v) => !v)}
+                  >
+                    {showExplorerSettings ? "▾" : "▸"} Explorer API
+                  </button>
+                </div>
+                {showExplorerSettings && (
+                  <div className="mt-2 p-3 bg-gray-50 rounded-xl border border-gray-200 space-y-2">
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-1">API base URL</label>
+                      <input
+                        className="w-full border-2 border-gray-300 focus:border-indigo-500 p-2 rounded-lg text-xs font-mono bg-white"
+                        value={explorerApiBase}
+                        onChange={(e) => setExplorerApiBase(e.target.value)}
+                        placeholder={ETHERSCAN_V2_API}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-1">API key</label>
+                      <input
+                        type="password"
+                        className="w-full border-2 border-gray-300 focus:border-indigo-500 p-2 rounded-lg text-xs font-mono bg-white"
+                        value={explorerApiKey}
+                        onChange={(e) => setExplorerApiKey(e.target.value)}
+                        placeholder="optional"
+                      />
+                    </div>
+                  </div>
+                )}
                 {contractAddress === "0x779877A7B0D9E8603169DdbD7836e478b4624789" && (
                   <div className="mt-2 p-3 bg-purple-50 border border-purple-200 rounded-lg text-xs text-purple-700">
                     <div className="font-bold">💡 Info</div>
                     <div>LINK test token contract (<span className="font-bold">Sepolia Testnet</span>)</div>
                   </div>
                 )}
+                {tokenInfo && (
+                  <div className="mt-2 p-3 bg-emerald-50 border border-emerald-200 rounded-lg text-xs text-emerald-700">
+                    <span className="font-bold">🪙 ERC-20 detected:</span> {tokenInfo.symbol || "unknown symbol"} · {tokenInfo.decimals} decimals
+                  </div>
+                )}
+                {proxyInfo && (
+                  <div className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 space-y-1">
+                    <div className="font-bold">🪞 {proxyInfo.kind} proxy — calls are sent to the proxy address</div>
+                    <div>
+                      Implementation: <span className="font-mono break-all">{proxyInfo.implementation}</span>
+                    </div>
+                    {proxyInfo.beacon && (
+                      <div>
+                        Beacon: <span className="font-mono break-all">{proxyInfo.beacon}</span>
+                      </div>
+                    )}
+                    {proxyInfo.admin && (
+                      <div>
+                        Admin: <span className="font-mono break-all">{proxyInfo.admin}</span>
+                      </div>
+                    )}
+                    <div className="flex gap-2 pt-1">
+                      <button
+                        className="px-3 py-1 rounded-md bg-amber-100 hover:bg-amber-200 font-bold disabled:opacity-60"
+                        onClick={() => loadImplementationAbi("switch")}
+                        disabled={isFetchingAbi}
+                      >
+                        Use implementation ABI
+                      </button>
+                      <button
+                        className="px-3 py-1 rounded-md bg-amber-100 hover:bg-amber-200 font-bold disabled:opacity-60"
+                        onClick={() => loadImplementationAbi("merge")}
+                        disabled={isFetchingAbi}
+                      >
+                        Merge with current ABI
+                      </button>
+                    </div>
+                  </div>
+                )}
                 {contractAddress === "0xdAC17F958D2ee523a2206206994597C13D831ec7" && (
                   <div className="mt-2 p-3 bg-green-50 border border-green-200 rounded-lg text-xs text-green-700">
                     <div className="font-bold flex items-center gap-2">
@@ -1024,7 +3150,6 @@ export default function AbiDynamicUI() {
                     <div className="mt-1 space-y-1">
                       <div>• USDT stablecoin contract (<span className="font-bold">Ethereum Mainnet</span>)</div>
                       <div>• Querying <span className="font-bold">Vitalik Buterin</span>'s wallet</div>
-                      <div>• USDT decimals: <span className="font-bold">6</span> (auto-detected)</div>
                     </div>
                   </div>
                 )}
@@ -1037,7 +3162,7 @@ export default function AbiDynamicUI() {
                   <span>Switch Network</span>
                 </label>
                 <div className="grid grid-cols-1 gap-2 max-h-64 overflow-y-auto">
-                  {Object.entries(CHAIN_MAP).map(([k, v]) => (
+                  {Object.entries(chains).map(([k, v]) => (
                     <button
                       key={k}
                       className="px-4 py-3 rounded-xl bg-gradient-to-r from-slate-50 to-slate-100 hover:from-indigo-50 hover:to-purple-50 border-2 border-slate-200 hover:border-indigo-300 text-sm font-bold text-gray-700 hover:text-indigo-700 transition-all duration-200 text-left hover:scale-102 transform hover:shadow-md flex items-center gap-3"
@@ -1045,9 +3170,107 @@ export default function AbiDynamicUI() {
                     >
                       <span className="text-lg">{v.icon}</span>
                       <span>{v.name}</span>
+                      {customChains[k] && (
+                        <span className="ml-auto text-xs font-semibold text-purple-600 bg-purple-100 px-2 py-0.5 rounded-md">custom</span>
+                      )}
                     </button>
                   ))}
                 </div>
+                <button
+                  className="mt-3 text-sm font-bold text-gray-600 hover:text-indigo-700 transition-all duration-200"
+                  onClick={() => setShowChainEditor((v) => !v)}
+                >
+                  {showChainEditor ? "▾" : "▸"} 🧩 Custom chains ({Object.keys(customChains).length})
+                </button>
+                {showChainEditor && (
+                  <div className="mt-2 p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+                    {Object.entries(customChains).map(([key, chain]) => (
+                      <div key={key} className="flex items-center gap-2 text-sm">
+                        <span>{chain.icon}</span>
+                        <span className="font-bold text-gray-800 flex-1 truncate">{chain.name}</span>
+                        <span className="font-mono text-xs text-gray-500">{Number(BigInt(chain.chainId))}</span>
+                        <button className="text-xs px-2 py-1 rounded-md text-indigo-600 hover:bg-indigo-100" onClick={() => editCustomChain(key)}>
+                          Edit
+                        </button>
+                        <button className="text-xs px-2 py-1 rounded-md text-red-500 hover:bg-red-100" onClick={() => deleteCustomChain(key)}>
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                    <div className="grid grid-cols-2 gap-2">
+                      {CHAIN_FORM_FIELDS.map((f) => (
+                        <div key={f.name} className={f.wide ? "col-span-2" : ""}>
+                          <label className="block text-xs font-bold text-gray-700 mb-1">{f.label}</label>
+                          <input
+                            className="w-full border-2 border-gray-300 focus:border-indigo-500 p-2 rounded-lg text-xs font-mono bg-white"
+                            value={chainForm[f.name]}
+                            onChange={(e) => setChainForm((form) => ({ ...form, [f.name]: e.target.value }))}
+                            placeholder={f.placeholder}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        className="flex-1 px-4 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold text-sm shadow-md hover:shadow-lg transition-all duration-200 disabled:opacity-60"
+                        onClick={saveCustomChain}
+                        disabled={isSavingChain}
+                      >
+                        {editingChainKey ? "💾 Update chain" : "➕ Add chain"}
+                      </button>
+                      {editingChainKey && (
+                        <button
+                          className="px-4 py-2 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold text-sm"
+                          onClick={() => {
+                            setEditingChainKey(null);
+                            setChainForm(EMPTY_CHAIN_FORM);
+                          }}
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Read-only RPC */}
+              <div>
+                <label className="flex items-center gap-2 font-bold text-gray-800 text-xl mb-4">
+                  <span className="text-2xl">🛰️</span>
+                  <span>Read-only RPC</span>
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    className="flex-1 min-w-0 border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-2 rounded-xl font-mono text-xs bg-gray-50 hover:bg-white"
+                    value={rpcUrlInput}
+                    onChange={(e) => setRpcUrlInput(e.target.value)}
+                    placeholder="https://... or http://127.0.0.1:8545"
+                  />
+                  <button
+                    className="px-4 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold text-sm shadow-md hover:shadow-lg transition-all duration-200"
+                    onClick={() => applyRpcUrl(rpcUrlInput)}
+                  >
+                    Apply
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <button
+                    className="text-xs px-2 py-1 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 font-semibold"
+                    onClick={() => applyRpcUrl(LOCAL_RPC_URL)}
+                  >
+                    🧪 Local node (anvil / hardhat)
+                  </button>
+                </div>
+                <div className="mt-2 text-xs text-gray-600">
+                  {ethereum
+                    ? "Wallet connected: reads go through the wallet."
+                    : rpcError
+                    ? <span className="text-red-600">❌ {rpcError}</span>
+                    : rpcChainId
+                    ? <>✅ Reading from {findChainConfig(rpcChainId, chains)?.name ?? `chain ${rpcChainId}`}, no wallet needed for view calls.</>
+                    : "⏳ Detecting network..."}
+                </div>
               </div>
             </div>
           </div>
@@ -1059,11 +3282,44 @@ export default function AbiDynamicUI() {
             <span className="text-4xl">⚡</span>
             <h2 className="text-3xl font-black text-gray-800">Smart Contract Functions</h2>
             {functions.length > 0 && (
-              <span className="ml-auto bg-gradient-to-r from-indigo-500 to-purple-500 text-white px-4 py-2 rounded-full text-sm font-bold shadow-lg">
-                {functions.length} functions
-              </span>
+              <>
+                <button
+                  className="ml-auto px-4 py-2 rounded-xl bg-gradient-to-r from-emerald-500 to-teal-600 text-white font-bold text-sm shadow-md hover:shadow-lg transition-all duration-200 disabled:opacity-60"
+                  onClick={readAllViews}
+                  disabled={isReadingAll}
+                  title="Batch every zero-argument view function, plus those with filled inputs"
+                >
+                  📊 Read all
+                </button>
+                <span className="bg-gradient-to-r from-indigo-500 to-purple-500 text-white px-4 py-2 rounded-full text-sm font-bold shadow-lg">
+                  {functions.length} functions
+                </span>
+              </>
             )}
           </div>
+
+          {readAll && (
+            <div className="mb-6 p-4 bg-gradient-to-br from-emerald-50 to-teal-50 border-2 border-emerald-200 rounded-2xl">
+              <div className="flex items-center gap-2 mb-3 text-sm">
+                <span className="font-bold text-emerald-800">📊 Dashboard</span>
+                <span className="text-emerald-700">
+                  {readAll.rows.length} calls via {readAll.via} on <span className="font-mono">{readAll.address.slice(0, 10)}...</span>
+                </span>
+                <button className="ml-auto text-xs text-gray-500 hover:text-red-600" onClick={() => setReadAll(null)}>
+                  ✕
+                </button>
+              </div>
+              <div className="divide-y divide-emerald-100">
+                {readAll.rows.map((row) => (
+                  <div key={row.fnKey} className="flex items-start gap-3 py-1.5 text-xs">
+                    <span>{row.success ? "✅" : "❌"}</span>
+                    <span className="font-mono font-bold text-gray-800 w-1/3 break-all">{row.fnKey}</span>
+                    <span className={`font-mono flex-1 break-all ${row.success ? "text-gray-700" : "text-red-600"}`}>{row.summary}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
           
           {functions.length === 0 && (
             <div className="text-center py-20 bg-gradient-to-br from-gray-50 to-slate-100 rounded-2xl border-2 border-dashed border-gray-300">
@@ -1077,8 +3333,9 @@ export default function AbiDynamicUI() {
             {functions.map((fn) => {
               const fnKey = getFnKey(fn);
               const isReadOnly = fn.stateMutability === "view" || fn.stateMutability === "pure";
+              const isPayable = fn.stateMutability === "payable";
               return (
-                <div key={fnKey} className="border-2 border-gray-200 rounded-2xl p-6 hover:border-indigo-400 hover:shadow-xl transition-all duration-300 bg-gradient-to-br from-white via-blue-50/30 to-indigo-50/30">
+                <div key={fnKey} id={`fn-${fnKey}`} className="border-2 border-gray-200 rounded-2xl p-6 hover:border-indigo-400 hover:shadow-xl transition-all duration-300 bg-gradient-to-br from-white via-blue-50/30 to-indigo-50/30">
                   <div className="flex flex-wrap items-center justify-between gap-4 mb-5">
                     <div className="flex-1 min-w-[200px]">
                       <div className="text-2xl font-black text-gray-900 mb-2">{fn.name}</div>
@@ -1092,11 +3349,27 @@ export default function AbiDynamicUI() {
                         </span>
                         {fn.outputs && fn.outputs.length > 0 && (
                           <span className="text-xs px-4 py-1.5 rounded-full font-bold bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-sm">
-                            📤 {fn.outputs.map((o) => o.type).join(", ")}
+                            📤 {fn.outputs.map(formatParamType).join(", ")}
                           </span>
                         )}
                       </div>
                     </div>
+                    {!isReadOnly && (
+                      <button
+                        className="px-6 py-3 rounded-xl font-bold shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-105 transform bg-white border-2 border-orange-300 text-orange-700 hover:bg-orange-50"
+                        onClick={() => simulateFunction(fn)}
+                      >
+                        🧪 Simulate
+                      </button>
+                    )}
+                    {!isReadOnly && (
+                      <button
+                        className="px-6 py-3 rounded-xl font-bold shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-105 transform bg-white border-2 border-indigo-300 text-indigo-700 hover:bg-indigo-50"
+                        onClick={() => addToQueue(fn)}
+                      >
+                        📥 Queue
+                      </button>
+                    )}
                     <button
                       className={`px-8 py-3 rounded-xl font-bold shadow-xl hover:shadow-2xl transition-all duration-300 hover:scale-110 transform ${
                         isReadOnly
@@ -1109,32 +3382,908 @@ export default function AbiDynamicUI() {
                     </button>
                   </div>
 
-                  {(fn.inputs || []).length > 0 && (
+                  {((fn.inputs || []).length > 0 || isPayable) && (
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-white/60 rounded-xl border border-gray-200">
-                      {(fn.inputs || []).map((inp, idx) => {
-                        const key = `${fnKey}#${idx}`;
-                        return (
-                          <div key={key}>
-                            <label className="block text-sm font-bold text-gray-800 mb-2">
-                              {inp.name || `Param ${idx + 1}`}
-                              <span className="text-xs font-semibold text-indigo-600 ml-2 px-2 py-1 bg-indigo-100 rounded-md">
-                                {inp.type}
+                      {(fn.inputs || []).map((inp, idx) =>
+                        renderParamInput(inp, `${fnKey}#${idx}`, inp.name || `Param ${idx + 1}`)
+                      )}
+                      {isPayable && (
+                        <div>
+                          <label className="block text-sm font-bold text-gray-800 mb-2">
+                            💰 Value
+                            <span className="text-xs font-semibold text-amber-700 ml-2 px-2 py-1 bg-amber-100 rounded-md">
+                              payable
+                            </span>
+                            <button
+                              className={`text-xs font-semibold ml-2 px-2 py-1 rounded-md transition-all duration-200 ${
+                                rawValueUnits[fnKey] ? "bg-gray-100 text-gray-600" : "bg-emerald-100 text-emerald-700"
+                              }`}
+                              onClick={() => setRawValueUnits((r) => ({ ...r, [fnKey]: !r[fnKey] }))}
+                              title={rawValueUnits[fnKey] ? "Value in wei" : `Value in ${nativeCurrency.symbol} (${nativeCurrency.decimals} decimals)`}
+                            >
+                              {rawValueUnits[fnKey] ? "wei" : nativeCurrency.symbol}
+                            </button>
+                          </label>
+                          <input
+                            className="w-full border-2 border-amber-300 focus:border-amber-500 focus:ring-4 focus:ring-amber-100 p-3 rounded-xl font-mono text-sm transition-all duration-200 bg-white shadow-sm hover:shadow-md"
+                            placeholder={rawValueUnits[fnKey] ? "e.g.: 1000000000000000000" : `e.g.: 0.1 (${nativeCurrency.symbol})`}
+                            value={paramsState[`${fnKey}#value`] ?? ""}
+                            onChange={(e) => updateParam(`${fnKey}#value`, e.target.value)}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {!isReadOnly && (
+                    <div className="mt-3">
+                      <button
+                        className="text-sm font-bold text-gray-600 hover:text-indigo-700 transition-all duration-200"
+                        onClick={() => setShowOverrides((m) => ({ ...m, [fnKey]: !m[fnKey] }))}
+                      >
+                        {showOverrides[fnKey] ? "▾" : "▸"} ⚙️ Advanced overrides
+                      </button>
+                      {showOverrides[fnKey] && (
+                        <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-4 p-4 bg-gray-50 rounded-xl border border-gray-200">
+                          {OVERRIDE_FIELDS.map((f) => (
+                            <div key={f.name}>
+                              <label className="block text-xs font-bold text-gray-700 mb-1">
+                                {f.label}
+                                <span className="font-semibold text-gray-500 ml-1">({f.unit})</span>
+                              </label>
+                              <input
+                                className="w-full border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-2 rounded-lg font-mono text-sm bg-white"
+                                placeholder={f.placeholder}
+                                value={paramsState[`${fnKey}#${f.name}`] ?? ""}
+                                onChange={(e) => updateParam(`${fnKey}#${f.name}`, e.target.value)}
+                              />
+                            </div>
+                          ))}
+                          <div className="md:col-span-3 text-xs text-gray-500">
+                            Leave empty to let the wallet decide. Gas price is for legacy (non EIP-1559) chains; reuse a pending nonce with higher fees to replace a stuck transaction.
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="mt-3">
+                    <button
+                      className="text-sm font-bold text-gray-600 hover:text-indigo-700 transition-all duration-200"
+                      onClick={() => setShowCalldata((m) => ({ ...m, [fnKey]: !m[fnKey] }))}
+                    >
+                      {showCalldata[fnKey] ? "▾" : "▸"} 🧬 Calldata
+                    </button>
+                    {showCalldata[fnKey] && (() => {
+                      const encoded = encodeCalldata(fn);
+                      return (
+                        <div className="mt-2 p-4 bg-gray-50 rounded-xl border border-gray-200 text-sm space-y-2">
+                          <div>
+                            <span className="font-bold text-gray-700">Selector:</span>{" "}
+                            <span className="font-mono">{encoded.selector ?? "-"}</span>
+                          </div>
+                          {encoded.calldata ? (
+                            <div className="flex items-start gap-2">
+                              <span className="font-mono text-xs break-all flex-1 text-gray-700">{encoded.calldata}</span>
+                              <button
+                                className="text-xs px-2 py-1 rounded-md bg-gray-100 hover:bg-indigo-100 hover:text-indigo-700"
+                                onClick={() => copyToClipboard(encoded.calldata!, "calldata")}
+                              >
+                                📋
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="text-xs text-amber-700">Fill in the inputs to encode: {encoded.error}</div>
+                          )}
+                        </div>
+                      );
+                    })()}
+                  </div>
+
+                  {simulations[fnKey] && (() => {
+                    const sim = simulations[fnKey];
+                    const gwei = (v: bigint | null) => (v === null ? "-" : `${formatUnits(v, "gwei")} gwei`);
+                    return (
+                      <div className={`mt-4 p-4 rounded-xl border ${sim.success ? "bg-emerald-50/60 border-emerald-200" : "bg-red-50/60 border-red-200"}`}>
+                        <div className="flex items-center justify-between mb-2">
+                          <span className={`text-sm font-bold ${sim.success ? "text-emerald-800" : "text-red-800"}`}>
+                            {sim.success ? "🧪 Simulation succeeded" : "🧪 Simulation reverted"}
+                          </span>
+                          <button
+                            className="text-xs text-gray-500 hover:text-gray-700 font-semibold"
+                            onClick={() => setSimulations((m) => {
+                              const next = { ...m };
+                              delete next[fnKey];
+                              return next;
+                            })}
+                          >
+                            Clear
+                          </button>
+                        </div>
+                        {sim.revert && (
+                          <div className="text-sm font-mono text-red-700 break-all mb-2">{sim.revert}</div>
+                        )}
+                        {sim.success && (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm mb-2">
+                            {sim.value > 0n && (
+                              <div className="md:col-span-2">
+                                <span className="font-bold text-gray-700">Value:</span>{" "}
+                                <span className="font-mono">{formatUnits(sim.value, sim.nativeCurrency.decimals)} {sim.nativeCurrency.symbol}</span>
+                              </div>
+                            )}
+                            <div><span className="font-bold text-gray-700">Estimated gas:</span> <span className="font-mono">{sim.gasEstimate?.toString()}</span></div>
+                            <div>
+                              <span className="font-bold text-gray-700">Max cost:</span>{" "}
+                              <span className="font-mono">
+                                {sim.maxCost === null ? "-" : `${formatUnits(sim.maxCost, sim.nativeCurrency.decimals)} ${sim.nativeCurrency.symbol}`}
                               </span>
-                            </label>
-                            <input
-                              className="w-full border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-3 rounded-xl font-mono text-sm transition-all duration-200 bg-white shadow-sm hover:shadow-md"
-                              placeholder={placeholderForType(inp.type)}
-                              value={paramsState[key] ?? ""}
-                              onChange={(e) => updateParam(fnKey, idx, e.target.value)}
-                            />
+                            </div>
+                            {sim.maxFeePerGas !== null ? (
+                              <>
+                                <div><span className="font-bold text-gray-700">Max fee:</span> <span className="font-mono">{gwei(sim.maxFeePerGas)}</span></div>
+                                <div><span className="font-bold text-gray-700">Priority fee:</span> <span className="font-mono">{gwei(sim.maxPriorityFeePerGas)}</span></div>
+                              </>
+                            ) : (
+                              <div><span className="font-bold text-gray-700">Gas price:</span> <span className="font-mono">{gwei(sim.gasPrice)}</span></div>
+                            )}
                           </div>
-                        );
-                      })}
+                        )}
+                        {sim.returnValue.map((node, i) => renderResultNode(node, `${fnKey}~sim@${i}`))}
+                      </div>
+                    );
+                  })()}
+
+                  {results[fnKey] && (
+                    <div className="mt-4 p-4 bg-purple-50/60 rounded-xl border border-purple-200">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm font-bold text-purple-800">📤 Result</span>
+                        <button
+                          className="text-xs text-gray-500 hover:text-gray-700 font-semibold"
+                          onClick={() => setResults((r) => {
+                            const next = { ...r };
+                            delete next[fnKey];
+                            return next;
+                          })}
+                        >
+                          Clear
+                        </button>
+                      </div>
+                      {results[fnKey].length === 0 && (
+                        <div className="text-xs text-gray-500 italic">No return values</div>
+                      )}
+                      {results[fnKey].map((node, i) => renderResultNode(node, `${fnKey}@${i}`))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Calldata Decoder Area */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-xl p-6 md:p-8 mb-8 border border-gray-100">
+          <div className="flex items-center gap-3 mb-6">
+            <span className="text-4xl">🧬</span>
+            <h2 className="text-3xl font-black text-gray-800">Calldata Decoder</h2>
+          </div>
+          <textarea
+            rows={3}
+            value={calldataInput}
+            onChange={(e) => setCalldataInput(e.target.value)}
+            className="w-full border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-4 rounded-xl font-mono text-xs transition-all duration-200 resize-none bg-gray-50 hover:bg-white shadow-inner"
+            placeholder="0xa9059cbb... (input data copied from an explorer)"
+          />
+          <button
+            className="mt-3 px-6 py-2.5 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-60"
+            onClick={decodeCalldata}
+            disabled={abi.length === 0}
+          >
+            🔍 Decode & fill inputs
+          </button>
+          {decodedCalldata && (
+            <div className="mt-4 p-4 bg-gradient-to-br from-indigo-50 to-purple-50 border-2 border-indigo-200 rounded-xl">
+              <div className="mb-2 text-sm">
+                <span className="font-bold text-indigo-800">{decodedCalldata.fnKey}</span>
+                <span className="font-mono text-xs text-gray-500 ml-2">{decodedCalldata.selector}</span>
+              </div>
+              {decodedCalldata.nodes.length === 0 ? (
+                <div className="text-sm text-gray-500">No arguments</div>
+              ) : (
+                decodedCalldata.nodes.map((node, idx) => renderResultNode(node, `calldata#${idx}`))
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Transaction Lookup Area */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-xl p-6 md:p-8 mb-8 border border-gray-100">
+          <div className="flex items-center gap-3 mb-6">
+            <span className="text-4xl">🔎</span>
+            <h2 className="text-3xl font-black text-gray-800">Look up Transaction</h2>
+          </div>
+          <div className="flex gap-2">
+            <input
+              className="flex-1 min-w-0 border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-3 rounded-xl font-mono text-sm bg-gray-50 hover:bg-white"
+              value={txLookupHash}
+              onChange={(e) => setTxLookupHash(e.target.value)}
+              placeholder="Transaction hash 0x..."
+            />
+            <button
+              className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-60"
+              onClick={lookupTransaction}
+              disabled={isLookingUpTx}
+            >
+              {isLookingUpTx ? "⏳ Looking up..." : "🔎 Look up"}
+            </button>
+          </div>
+          {txLookup && (() => {
+            const currency = txLookup.nativeCurrency;
+            return (
+              <div className="mt-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm p-4 bg-gray-50 rounded-xl border border-gray-200">
+                  <div className="md:col-span-2 flex items-center gap-2">
+                    <span className={`text-xs px-2 py-1 rounded-full font-bold ${TX_STATUS_BADGES[txLookup.status].className}`}>
+                      {TX_STATUS_BADGES[txLookup.status].label}
+                    </span>
+                    <span className="font-mono text-xs text-gray-500 break-all">{txLookup.hash}</span>
+                  </div>
+                  <div><span className="font-bold text-gray-700">Block:</span> <span className="font-mono">{txLookup.blockNumber ?? "-"}</span></div>
+                  <div><span className="font-bold text-gray-700">Value:</span> <span className="font-mono">{formatUnits(txLookup.value, currency.decimals)} {currency.symbol}</span></div>
+                  <div className="break-all"><span className="font-bold text-gray-700">From:</span> <span className="font-mono text-xs">{txLookup.from}</span></div>
+                  <div className="break-all"><span className="font-bold text-gray-700">To:</span> <span className="font-mono text-xs">{txLookup.to ?? "contract creation"}</span></div>
+                  <div>
+                    <span className="font-bold text-gray-700">Gas used:</span>{" "}
+                    <span className="font-mono">{txLookup.gasUsed?.toString() ?? "-"} / {txLookup.gasLimit.toString()}</span>
+                  </div>
+                  <div>
+                    <span className="font-bold text-gray-700">Effective gas price:</span>{" "}
+                    <span className="font-mono">{txLookup.effectiveGasPrice === null ? "-" : `${formatUnits(txLookup.effectiveGasPrice, "gwei")} gwei`}</span>
+                  </div>
+                  <div>
+                    <span className="font-bold text-gray-700">Fee:</span>{" "}
+                    <span className="font-mono">{txLookup.fee === null ? "-" : `${formatUnits(txLookup.fee, currency.decimals)} ${currency.symbol}`}</span>
+                  </div>
+                </div>
+                {txLookup.revert && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-xl text-sm">
+                    <span className="font-bold text-red-800">Revert reason:</span>{" "}
+                    <span className="font-mono text-red-700 break-all">{txLookup.revert}</span>
+                  </div>
+                )}
+                <div className="p-4 bg-gradient-to-br from-indigo-50 to-purple-50 border-2 border-indigo-200 rounded-xl">
+                  {txLookup.call ? (
+                    <>
+                      <div className="mb-2 text-sm">
+                        <span className="font-bold text-indigo-800">{txLookup.call.fnKey}</span>
+                        <span className="font-mono text-xs text-gray-500 ml-2">{txLookup.call.selector}</span>
+                      </div>
+                      {txLookup.call.nodes.map((node, idx) => renderResultNode(node, `txlookup#${idx}`))}
+                    </>
+                  ) : (
+                    <div className="text-sm text-gray-500">
+                      {txLookup.selector ? `Input selector ${txLookup.selector} is not in the loaded ABI` : "No calldata (plain transfer)"}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <div className="font-bold text-gray-800 mb-2">Logs ({txLookup.logs.length})</div>
+                  <div className="space-y-2">
+                    {txLookup.logs.map((log) => (
+                      <div key={log.index} className="p-3 border-2 border-gray-200 rounded-xl text-xs">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-gray-400">#{log.index}</span>
+                          <span className="font-bold text-sm">{log.decoded?.name ?? "Unknown event"}</span>
+                          <span className="font-mono text-gray-400 ml-auto">@ {log.address.slice(0, 6)}...{log.address.slice(-4)}</span>
+                        </div>
+                        {log.decoded ? (
+                          log.decoded.fields.map((field, i) => (
+                            <div key={i} className="font-mono break-all">
+                              <span className="font-bold text-gray-700">{field.label}:</span>{" "}
+                              {field.children ? JSON.stringify(resultNodeToJson(field)) : field.value}
+                            </div>
+                          ))
+                        ) : (
+                          <div className="font-mono text-gray-500 break-all">topic0: {log.topic0 ?? "(anonymous)"}</div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            );
+          })()}
+        </div>
+
+        {/* Events Area */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-xl p-6 md:p-8 mb-8 border border-gray-100">
+          <div className="flex items-center gap-3 mb-6">
+            <span className="text-4xl">📡</span>
+            <h2 className="text-3xl font-black text-gray-800">Contract Events</h2>
+            {isLive && (
+              <span className="flex items-center gap-2 bg-red-100 text-red-700 px-3 py-1 rounded-full text-xs font-bold">
+                <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
+                LIVE
+              </span>
+            )}
+            {events.length > 0 && (
+              <span className="ml-auto bg-gradient-to-r from-teal-500 to-cyan-500 text-white px-4 py-2 rounded-full text-sm font-bold shadow-lg">
+                {events.length} events
+              </span>
+            )}
+          </div>
+
+          {events.length === 0 ? (
+            <div className="text-center py-12 bg-gradient-to-br from-gray-50 to-slate-100 rounded-2xl border-2 border-dashed border-gray-300">
+              <div className="text-5xl mb-4">🔕</div>
+              <div className="text-gray-500">No events in the parsed ABI</div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-bold text-gray-800 mb-2">Event</label>
+                  <select
+                    className="w-full border-2 border-gray-300 focus:border-indigo-500 p-3 rounded-xl font-mono text-sm bg-white"
+                    value={selectedEvent}
+                    disabled={isLive}
+                    onChange={(e) => setSelectedEvent(e.target.value)}
+                  >
+                    <option value="*">All events</option>
+                    {events.map((ev) => (
+                      <option key={getFnKey(ev)} value={getFnKey(ev)}>{getFnKey(ev)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-800 mb-2">From Block</label>
+                  <input
+                    className="w-full border-2 border-gray-300 focus:border-indigo-500 p-3 rounded-xl font-mono text-sm bg-white"
+                    value={fromBlock}
+                    onChange={(e) => setFromBlock(e.target.value)}
+                    placeholder="latest - 4999"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-800 mb-2">To Block</label>
+                  <input
+                    className="w-full border-2 border-gray-300 focus:border-indigo-500 p-3 rounded-xl font-mono text-sm bg-white"
+                    value={toBlock}
+                    onChange={(e) => setToBlock(e.target.value)}
+                    placeholder="latest"
+                  />
+                </div>
+              </div>
+
+              {selectedEvent !== "*" && (() => {
+                const ev = events.find((e) => getFnKey(e) === selectedEvent);
+                const filterable = (ev?.inputs || [])
+                  .map((input, idx) => ({ input, idx }))
+                  .filter(({ input }) => input.indexed && !parseArrayType(input.type) && input.type !== "tuple");
+                if (filterable.length === 0) return null;
+                return (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-white/60 rounded-xl border border-gray-200">
+                    <div className="md:col-span-2 text-xs text-gray-500">Indexed filters (leave empty to match any value)</div>
+                    {filterable.map(({ input, idx }) =>
+                      renderParamInput(input, `event:${selectedEvent}#${idx}`, input.name || `Param ${idx + 1}`)
+                    )}
+                  </div>
+                );
+              })()}
+
+              <div className="flex flex-wrap gap-3">
+                <button
+                  className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-teal-500 to-cyan-600 text-white font-bold shadow-lg hover:shadow-xl hover:scale-105 transform transition-all duration-300 disabled:opacity-60"
+                  onClick={queryEvents}
+                  disabled={isQueryingEvents}
+                >
+                  🔎 Query Logs
+                </button>
+                <button
+                  className={`px-6 py-2.5 rounded-xl font-bold shadow-lg hover:shadow-xl hover:scale-105 transform transition-all duration-300 ${
+                    isLive ? "bg-gray-700 text-white" : "bg-gradient-to-r from-red-500 to-pink-500 text-white"
+                  }`}
+                  onClick={toggleLiveEvents}
+                >
+                  {isLive ? "⏹ Stop Live" : "🔴 Subscribe Live"}
+                </button>
+                <button
+                  className="px-6 py-2.5 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold transition-all duration-200"
+                  onClick={() => setEventLogs([])}
+                  disabled={eventLogs.length === 0}
+                >
+                  Clear
+                </button>
+              </div>
+
+              <div className="overflow-x-auto border-2 border-gray-200 rounded-xl">
+                <table className="w-full text-sm text-left">
+                  <thead className="bg-gray-100 text-gray-700">
+                    <tr>
+                      <th className="px-4 py-2 font-bold">Block</th>
+                      <th className="px-4 py-2 font-bold">Event</th>
+                      <th className="px-4 py-2 font-bold">Fields</th>
+                      <th className="px-4 py-2 font-bold">Tx</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {eventLogs.length === 0 && (
+                      <tr>
+                        <td colSpan={4} className="px-4 py-6 text-center text-gray-400">No logs yet</td>
+                      </tr>
+                    )}
+                    {eventLogs.map((log) => (
+                      <tr key={log.id} className="border-t border-gray-200 align-top hover:bg-teal-50/40">
+                        <td className="px-4 py-2 font-mono">{log.blockNumber}</td>
+                        <td className="px-4 py-2 font-bold">
+                          {log.name}
+                          {log.live && <span className="ml-2 text-xs text-red-600">● live</span>}
+                        </td>
+                        <td className="px-4 py-2">
+                          {log.fields.map((field, i) => (
+                            <div key={i} className="font-mono text-xs break-all">
+                              <span className="font-bold text-gray-700">{field.label}:</span>{" "}
+                              {field.children ? JSON.stringify(resultNodeToJson(field)) : field.value}
+                            </div>
+                          ))}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-xs">
+                          <button
+                            className="hover:text-indigo-600"
+                            onClick={() => copyToClipboard(log.transactionHash, "tx hash")}
+                            title={log.transactionHash}
+                          >
+                            {log.transactionHash.slice(0, 10)}...
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Signing Workbench Area */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-xl p-6 md:p-8 mb-8 border border-gray-100">
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            <span className="text-4xl">✍️</span>
+            <h2 className="text-3xl font-black text-gray-800">Signing Workbench</h2>
+            <div className="ml-auto flex gap-2">
+              {(["message", "typedData"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  className={`px-4 py-2 rounded-xl text-sm font-bold transition-all duration-200 ${
+                    signMode === mode ? "bg-emerald-600 text-white shadow-md" : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  }`}
+                  onClick={() => setSignMode(mode)}
+                >
+                  {mode === "message" ? "Message" : "Typed Data (EIP-712)"}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {signMode === "message" ? (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <label className="font-bold text-sm text-gray-800">Message</label>
+                <button
+                  className={`text-xs font-semibold px-2 py-1 rounded-md ${messageIsHex ? "bg-indigo-100 text-indigo-700" : "bg-gray-100 text-gray-600"}`}
+                  onClick={() => setMessageIsHex((h) => !h)}
+                >
+                  {messageIsHex ? "Hex bytes" : "UTF-8 text"}
+                </button>
+              </div>
+              <textarea
+                rows={4}
+                value={messageText}
+                onChange={(e) => setMessageText(e.target.value)}
+                className="w-full border-2 border-gray-300 focus:border-emerald-500 focus:ring-4 focus:ring-emerald-100 p-4 rounded-xl font-mono text-sm resize-none bg-gray-50 hover:bg-white"
+                placeholder={messageIsHex ? "0x..." : "Message to sign"}
+              />
+              <button
+                className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-green-600 text-white font-bold shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-60"
+                onClick={signWorkbenchMessage}
+                disabled={!account}
+              >
+                ✍️ Sign Message
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="font-bold text-sm text-gray-800">Typed data JSON (domain, types, primaryType, message)</label>
+                <button
+                  className="text-xs font-semibold px-3 py-1 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600"
+                  onClick={() => setTypedDataText(JSON.stringify(getPermitTypedDataExample(chainId, account, contractAddress), null, 2))}
+                >
+                  Load ERC-2612 Permit example
+                </button>
+              </div>
+              <textarea
+                rows={12}
+                value={typedDataText}
+                onChange={(e) => setTypedDataText(e.target.value)}
+                className="w-full border-2 border-gray-300 focus:border-emerald-500 focus:ring-4 focus:ring-emerald-100 p-4 rounded-xl font-mono text-sm resize-none bg-gray-50 hover:bg-white"
+                placeholder='{"domain": {...}, "types": {...}, "primaryType": "...", "message": {...}}'
+              />
+              <button
+                className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-green-600 text-white font-bold shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-60"
+                onClick={signWorkbenchTypedData}
+                disabled={!account}
+              >
+                ✍️ Sign Typed Data
+              </button>
+            </div>
+          )}
+
+          {signatureResult && (
+            <div className="mt-4 p-4 bg-emerald-50/60 rounded-xl border border-emerald-200 space-y-2 text-sm">
+              {([
+                ["Signature", signatureResult.signature],
+                ["Digest", signatureResult.digest],
+                ["Recovered signer", signatureResult.recovered],
+              ] as const).map(([label, value]) => (
+                <div key={label} className="flex items-start gap-2">
+                  <span className="font-bold text-gray-700 shrink-0 w-36">{label}</span>
+                  <span className="font-mono break-all flex-1">{value}</span>
+                  <button
+                    className="text-xs px-2 py-0.5 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 font-semibold shrink-0"
+                    onClick={() => copyToClipboard(value, label.toLowerCase())}
+                  >
+                    📋 Copy
+                  </button>
+                </div>
+              ))}
+              <div className={`font-bold ${account && signatureResult.recovered.toLowerCase() === account.toLowerCase() ? "text-green-700" : "text-red-700"}`}>
+                {account && signatureResult.recovered.toLowerCase() === account.toLowerCase()
+                  ? "✅ Recovered signer matches the connected account"
+                  : "❌ Recovered signer does not match the connected account"}
+              </div>
+              <button
+                className="text-xs font-semibold px-3 py-1 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600"
+                onClick={() => {
+                  setVerifySignatureText(signatureResult.signature);
+                  setVerifyAddress(signatureResult.recovered);
+                }}
+              >
+                Use for verification ↓
+              </button>
+            </div>
+          )}
+
+          {/* Verify */}
+          <div className="mt-6 pt-6 border-t-2 border-dashed border-gray-200 space-y-3">
+            <div className="font-bold text-lg text-gray-800">🔎 Verify Signature</div>
+            <div className="text-xs text-gray-500">
+              Verifies against the {signMode === "message" ? "message" : "typed data"} above. Contract accounts are checked with EIP-1271 isValidSignature on the connected chain.
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-bold text-gray-800 mb-2">Signature</label>
+                <input
+                  className="w-full border-2 border-gray-300 focus:border-emerald-500 focus:ring-4 focus:ring-emerald-100 p-3 rounded-xl font-mono text-sm bg-white"
+                  value={verifySignatureText}
+                  onChange={(e) => setVerifySignatureText(e.target.value)}
+                  placeholder="0x..."
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-800 mb-2">Expected signer (EOA or contract wallet)</label>
+                <input
+                  className="w-full border-2 border-gray-300 focus:border-emerald-500 focus:ring-4 focus:ring-emerald-100 p-3 rounded-xl font-mono text-sm bg-white"
+                  value={verifyAddress}
+                  onChange={(e) => setVerifyAddress(e.target.value)}
+                  placeholder="0x... (optional)"
+                />
+              </div>
+            </div>
+            <button
+              className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-teal-500 to-emerald-600 text-white font-bold shadow-lg hover:shadow-xl transition-all duration-300"
+              onClick={verifyWorkbenchSignature}
+            >
+              🔎 Verify
+            </button>
+            {verificationResult && (
+              <div className={`p-4 rounded-xl border text-sm space-y-1 ${
+                verificationResult.valid === null ? "bg-yellow-50 border-yellow-300" : verificationResult.valid ? "bg-green-50 border-green-300" : "bg-red-50 border-red-300"
+              }`}>
+                <div className={`font-bold ${verificationResult.valid === null ? "text-yellow-800" : verificationResult.valid ? "text-green-800" : "text-red-800"}`}>
+                  {verificationResult.valid === null ? "⚠️ Cannot verify" : verificationResult.valid ? "✅ Valid" : "❌ Invalid"} · {verificationResult.method}
+                </div>
+                <div className="text-gray-700">{verificationResult.reason}</div>
+                {verificationResult.recovered && (
+                  <div className="text-gray-600">
+                    Recovered address: <span className="font-mono">{verificationResult.recovered}</span>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Sign-In with Ethereum Area */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-xl p-6 md:p-8 mb-8 border border-gray-100">
+          <div className="flex items-center gap-3 mb-6">
+            <span className="text-4xl">🔐</span>
+            <h2 className="text-3xl font-black text-gray-800">Sign-In with Ethereum</h2>
+            <span className="ml-auto text-xs bg-gray-100 text-gray-600 px-3 py-1 rounded-full font-semibold">EIP-4361</span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
+            {([
+              ["Domain", siweDomain, setSiweDomain, "example.com"],
+              ["URI", siweUri, setSiweUri, "https://example.com/login"],
+              ["Statement", siweStatement, setSiweStatement, "optional"],
+              ["Expiry (minutes)", siweExpiryMinutes, setSiweExpiryMinutes, "empty = no expiration"],
+            ] as const).map(([label, value, setter, placeholder]) => (
+              <div key={label}>
+                <label className="block text-sm font-bold text-gray-800 mb-2">{label}</label>
+                <input
+                  className="w-full border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-3 rounded-xl text-sm bg-white"
+                  value={value}
+                  onChange={(e) => setter(e.target.value)}
+                  placeholder={placeholder}
+                />
+              </div>
+            ))}
+            <div>
+              <label className="block text-sm font-bold text-gray-800 mb-2">Nonce</label>
+              <div className="flex gap-2">
+                <input
+                  className="flex-1 min-w-0 border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-3 rounded-xl font-mono text-sm bg-white"
+                  value={siweNonce}
+                  onChange={(e) => setSiweNonce(e.target.value)}
+                />
+                <button
+                  className="px-3 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-bold"
+                  onClick={() => setSiweNonce(generateSiweNonce())}
+                  title="New nonce"
+                >
+                  🎲
+                </button>
+              </div>
+            </div>
+            <div className="flex items-end">
+              <button
+                className="w-full px-6 py-3 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-60"
+                onClick={buildAndSignSiwe}
+                disabled={!account}
+              >
+                🔐 Build &amp; Sign
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-bold text-gray-800 mb-2">SIWE message</label>
+              <textarea
+                rows={12}
+                value={siweMessage}
+                onChange={(e) => setSiweMessage(e.target.value)}
+                className="w-full border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-4 rounded-xl font-mono text-xs resize-none bg-gray-50 hover:bg-white"
+                placeholder="Build one above or paste a message from your dapp"
+              />
+              <label className="block text-sm font-bold text-gray-800 mt-3 mb-2">Signature</label>
+              <input
+                className="w-full border-2 border-gray-300 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-100 p-3 rounded-xl font-mono text-sm bg-white"
+                value={siweSignature}
+                onChange={(e) => setSiweSignature(e.target.value)}
+                placeholder="0x..."
+              />
+              <button
+                className="mt-3 px-6 py-2.5 rounded-xl bg-gradient-to-r from-teal-500 to-emerald-600 text-white font-bold shadow-lg hover:shadow-xl transition-all duration-300"
+                onClick={validateSiwe}
+              >
+                🔎 Validate
+              </button>
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-800 mb-2">Validation report</label>
+              {!siweChecks && (
+                <div className="text-sm text-gray-500 italic">Validate a message to see the per-field report</div>
+              )}
+              {siweChecks && (
+                <div className="border-2 border-gray-200 rounded-xl divide-y divide-gray-200">
+                  {siweChecks.map((check) => (
+                    <div key={check.field} className={`px-4 py-2 text-sm ${check.ok ? "" : "bg-red-50"}`}>
+                      <div className="flex items-start gap-2">
+                        <span>{check.ok ? "✅" : "❌"}</span>
+                        <span className="font-bold text-gray-800 w-32 shrink-0">{check.field}</span>
+                        <span className="font-mono text-xs text-gray-600 break-all flex-1">{check.value || "-"}</span>
+                      </div>
+                      {check.error && <div className="text-xs text-red-700 ml-6 mt-1">{check.error}</div>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Transaction Queue Area */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-xl p-6 md:p-8 mb-8 border border-gray-100">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <span className="text-4xl">📥</span>
+              <h2 className="text-3xl font-black text-gray-800">Transaction Queue</h2>
+              <span className="bg-gradient-to-r from-indigo-500 to-purple-500 text-white px-3 py-1 rounded-full text-xs font-bold">
+                {txQueue.length} calls
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                className="px-5 py-2.5 rounded-xl bg-white border-2 border-orange-300 text-orange-700 hover:bg-orange-50 font-bold text-sm transition-all duration-200 disabled:opacity-60"
+                onClick={simulateQueue}
+                disabled={isRunningQueue}
+              >
+                🧪 Simulate all
+              </button>
+              <button
+                className="px-5 py-2.5 rounded-xl bg-gradient-to-r from-orange-600 via-red-600 to-pink-600 text-white font-bold text-sm shadow-md hover:shadow-lg transition-all duration-200 disabled:opacity-60"
+                onClick={sendQueue}
+                disabled={isRunningQueue}
+              >
+                🚀 Send all
+              </button>
+              <button
+                className="px-5 py-2.5 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold text-sm transition-all duration-200 disabled:opacity-60"
+                onClick={() => setTxQueue([])}
+                disabled={isRunningQueue}
+              >
+                🗑️ Clear
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mb-4 p-3 bg-gray-50 rounded-xl border border-gray-200">
+            <span className="font-bold text-sm text-gray-700">🔐 Propose via Safe</span>
+            <input
+              className="flex-1 min-w-0 border-2 border-gray-300 focus:border-indigo-500 p-2 rounded-lg text-xs font-mono bg-white"
+              value={safeAddress}
+              onChange={(e) => setSafeAddress(e.target.value)}
+              placeholder="Safe address (optional)"
+            />
+            <button
+              className="px-4 py-2 rounded-lg bg-gradient-to-r from-emerald-500 to-teal-600 text-white font-bold text-xs shadow-md disabled:opacity-60"
+              onClick={exportSafeBatch}
+              disabled={txQueue.length === 0}
+            >
+              ⬇️ Export batch JSON
+            </button>
+            <label className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold text-xs cursor-pointer">
+              📂 Import batch JSON
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importSafeBatch(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </div>
+          {txQueue.length === 0 && (
+            <div className="text-center py-6 text-gray-400 text-sm">Queue write calls with 📥 Queue, or import a Safe batch</div>
+          )}
+          <div className="space-y-2">
+            {txQueue.map((call, i) => (
+              <div key={call.id} className="flex items-start gap-3 p-3 border-2 border-gray-200 rounded-xl text-sm">
+                <span className="font-black text-gray-400 w-6">{i + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="font-bold text-gray-800">
+                    {getFnKey(call.fn)}
+                    <span className="font-mono text-xs text-gray-400 ml-2">@ {call.contract.slice(0, 6)}...{call.contract.slice(-4)}</span>
+                  </div>
+                  <div className="font-mono text-xs text-gray-500 break-all">{JSON.stringify(namedArgs(call.fn, call.args, call.overrides))}</div>
+                  {call.detail && (
+                    <div className={`text-xs mt-1 ${call.status === "failed" || call.status === "sim-failed" ? "text-red-600" : "text-gray-600"}`}>
+                      {call.detail}
                     </div>
                   )}
+                  {call.hash && <div className="font-mono text-xs text-gray-400">{call.hash}</div>}
+                </div>
+                <span className={`text-xs px-2 py-1 rounded-full font-bold whitespace-nowrap ${QUEUE_STATUS_STYLES[call.status]}`}>
+                  {call.status}
+                </span>
+                <div className="flex gap-1">
+                  <button className="px-2 py-1 rounded-md hover:bg-gray-100 disabled:opacity-30" onClick={() => moveQueuedCall(call.id, -1)} disabled={isRunningQueue || i === 0}>
+                    ↑
+                  </button>
+                  <button className="px-2 py-1 rounded-md hover:bg-gray-100 disabled:opacity-30" onClick={() => moveQueuedCall(call.id, 1)} disabled={isRunningQueue || i === txQueue.length - 1}>
+                    ↓
+                  </button>
+                  <button
+                    className="px-2 py-1 rounded-md text-red-500 hover:bg-red-100 disabled:opacity-30"
+                    onClick={() => setTxQueue((q) => q.filter((c) => c.id !== call.id))}
+                    disabled={isRunningQueue}
+                  >
+                    ✕
+                  </button>
                 </div>
-              );
-            })}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Transaction History Area */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-xl p-6 md:p-8 mb-8 border border-gray-100">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <span className="text-4xl">🧾</span>
+              <h2 className="text-3xl font-black text-gray-800">Transaction History</h2>
+              {txHistory.length > 0 && (
+                <span className="bg-gradient-to-r from-amber-500 to-orange-500 text-white px-3 py-1 rounded-full text-xs font-bold">
+                  {txHistory.length} txs
+                </span>
+              )}
+            </div>
+            <button
+              className="px-5 py-2.5 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold text-sm transition-all duration-200"
+              onClick={() => {
+                if (window.confirm('Clear the saved transaction history?')) setTxHistory([]);
+              }}
+              disabled={txHistory.length === 0}
+            >
+              🗑️ Clear History
+            </button>
+          </div>
+          <div className="overflow-x-auto border-2 border-gray-200 rounded-xl">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-gray-100 text-gray-700">
+                <tr>
+                  <th className="px-4 py-2 font-bold">Time</th>
+                  <th className="px-4 py-2 font-bold">Chain</th>
+                  <th className="px-4 py-2 font-bold">Call</th>
+                  <th className="px-4 py-2 font-bold">Tx Hash</th>
+                  <th className="px-4 py-2 font-bold">Status</th>
+                  <th className="px-4 py-2 font-bold">Block</th>
+                  <th className="px-4 py-2 font-bold">Gas Used</th>
+                </tr>
+              </thead>
+              <tbody>
+                {txHistory.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-6 text-center text-gray-400">No transactions sent yet</td>
+                  </tr>
+                )}
+                {txHistory.map((tx) => {
+                  const chain = findChainConfig(tx.chainId, chains);
+                  const explorer = chain?.blockExplorerUrls[0];
+                  return (
+                    <tr key={tx.hash} className="border-t border-gray-200 align-top hover:bg-amber-50/40">
+                      <td className="px-4 py-2 text-xs whitespace-nowrap">{new Date(tx.timestamp).toLocaleString()}</td>
+                      <td className="px-4 py-2 text-xs whitespace-nowrap">{chain ? `${chain.icon} ${chain.name}` : tx.chainId}</td>
+                      <td className="px-4 py-2">
+                        <div className="font-bold">{tx.functionName}</div>
+                        <div className="font-mono text-xs text-gray-500 break-all">{tx.args}</div>
+                        <div className="font-mono text-xs text-gray-400">@ {tx.contract.slice(0, 6)}...{tx.contract.slice(-4)}</div>
+                      </td>
+                      <td className="px-4 py-2 font-mono text-xs">
+                        {explorer ? (
+                          <a href={`${explorer}/tx/${tx.hash}`} target="_blank" rel="noreferrer" title={tx.hash}>
+                            {tx.hash.slice(0, 10)}... ↗
+                          </a>
+                        ) : (
+                          <button className="hover:text-indigo-600" onClick={() => copyToClipboard(tx.hash, "tx hash")} title={tx.hash}>
+                            {tx.hash.slice(0, 10)}...
+                          </button>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={`text-xs px-2 py-1 rounded-full font-bold ${TX_STATUS_BADGES[tx.status].className}`}>
+                          {TX_STATUS_BADGES[tx.status].label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 font-mono text-xs">{tx.blockNumber ?? "-"}</td>
+                      <td className="px-4 py-2 font-mono text-xs">{tx.gasUsed ?? "-"}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
           </div>
         </div>
 
@@ -1197,6 +4346,1014 @@ export default function AbiDynamicUI() {
 
 // ---------- Helper Functions ----------
 
+// Parse any supported ABI input into JSON fragments; errors name the failing line
+function parseAbiText(text: string): AbiItem[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    const parsed = JSON.parse(trimmed.replace(/,\s*([\]}])/g, '$1'));
+    // Foundry and Hardhat artifacts keep the ABI under .abi
+    const items: unknown = Array.isArray(parsed) ? parsed : parsed?.abi;
+    if (!Array.isArray(items)) throw new Error("JSON is neither an ABI array nor an artifact with an abi field");
+    if (items.length > 0 && items.every((item) => typeof item === "string")) {
+      return parseAbiStatements(items.map((source: string, i) => ({ line: i + 1, label: `Entry ${i + 1}`, source })));
+    }
+    return items as AbiItem[];
+  }
+  const { statements, userTypes } = splitAbiStatements(text);
+  return parseAbiStatements(statements, userTypes);
+}
+
+type AbiStatement = { line: number; label: string; source: string };
+
+// Types declared in a pasted Solidity snippet: struct members ("uint24 fee"), enum and contract names
+type SolidityUserTypes = {
+  structs: Map<string, string[]>;
+  enums: Set<string>;
+  contracts: Set<string>;
+};
+
+// Replace struct names with their tuple, enums with uint8 and contract types with address (also when qualified, e.g. IRouter.Params)
+function expandUserTypes(source: string, userTypes: SolidityUserTypes, depth = 0): string {
+  if (depth > 16) throw new Error("Recursive struct definition");
+  return source.replace(/\b(?:[A-Za-z_]\w*\.)?([A-Za-z_]\w*)\b/g, (m, name: string) => {
+    if (userTypes.enums.has(name)) return "uint8";
+    if (userTypes.contracts.has(name)) return "address";
+    const members = userTypes.structs.get(name);
+    if (!members) return m;
+    return `tuple(${members.map((member) => expandUserTypes(member, userTypes, depth + 1)).join(", ")})`;
+  });
+}
+
+// Split human-readable lines, or the declarations of Solidity interfaces/contracts (bodies skipped), keeping their line numbers
+function splitAbiStatements(text: string): { statements: AbiStatement[]; userTypes: SolidityUserTypes } {
+  // Blank out comments without losing line breaks
+  let code = text
+    .replace(/\/\*[\s\S]*?\*\//g, (m) => m.replace(/[^\n]/g, " "))
+    .replace(/\/\/[^\n]*/g, "");
+  const statementAt = (offset: number, source: string): AbiStatement => {
+    const line = code.slice(0, offset).split("\n").length;
+    return { line, label: `Line ${line}`, source };
+  };
+
+  // Struct and enum bodies contain semicolons/commas, collect and blank them before splitting
+  const userTypes: SolidityUserTypes = { structs: new Map(), enums: new Set(), contracts: new Set() };
+  code = code.replace(/\b(struct|enum)\s+(\w+)\s*\{([^}]*)\}/g, (m, kind: string, name: string, body: string) => {
+    if (kind === "enum") {
+      userTypes.enums.add(name);
+    } else {
+      userTypes.structs.set(name, body.split(";").map((member) => member.trim().replace(/\s+/g, " ")).filter(Boolean));
+    }
+    return m.replace(/[^\n]/g, " ");
+  });
+  for (const match of code.matchAll(/\b(?:interface|contract)\s+(\w+)/g)) userTypes.contracts.add(match[1]);
+
+  const headers = [...code.matchAll(/\b(?:interface|contract|library)\s+\w+[^{;]*\{/g)];
+  if (headers.length === 0) {
+    const statements = code.split("\n").flatMap((line, i) => {
+      const source = line.trim().replace(/^["'`]|["'`]?[;,]?$/g, "");
+      return source ? [{ line: i + 1, label: `Line ${i + 1}`, source }] : [];
+    });
+    return { statements, userTypes };
+  }
+
+  // Walk every interface/contract/library block: declarations end at ";" or at the "{" of a body, which is skipped
+  const statements: AbiStatement[] = [];
+  let end = 0;
+  for (const header of headers) {
+    if (header.index < end) continue;
+    let start = header.index + header[0].length;
+    let i = start;
+    for (; i < code.length && code[i] !== "}"; i++) {
+      if (code[i] !== ";" && code[i] !== "{") continue;
+      const part = code.slice(start, i);
+      const source = part.trim().replace(/\s+/g, " ");
+      if (source) statements.push(statementAt(start + part.search(/\S/), source));
+      if (code[i] === "{") {
+        for (let depth = 0; i < code.length; i++) {
+          if (code[i] === "{") depth++;
+          if (code[i] === "}" && --depth === 0) break;
+        }
+      }
+      start = i + 1;
+    }
+    end = i + 1;
+  }
+  // Only external entry points belong in the ABI: skip modifiers, state variables and internal/private functions
+  return {
+    statements: statements.filter(
+      ({ source }) => /^(function|event|error|constructor|fallback|receive)\b/.test(source) && !/\b(internal|private)\b/.test(source)
+    ),
+    userTypes,
+  };
+}
+
+// Keep only what the human-readable parser knows after a function's parameters: mutability and the returns clause
+// (drops visibility, virtual/override and modifier invocations such as onlyOwner)
+function stripSolidityModifiers(source: string): string {
+  if (!/^(function|fallback|receive|constructor)\b/.test(source)) return source;
+  let depth = 0;
+  let i = source.indexOf("(");
+  if (i < 0) return source;
+  for (; i < source.length; i++) {
+    if (source[i] === "(") depth++;
+    if (source[i] === ")" && --depth === 0) break;
+  }
+  const tail = source.slice(i + 1);
+  const mutability = tail.split(/\breturns\b/)[0].match(/\b(view|pure|payable|nonpayable)\b/)?.[0] ?? "";
+  const returns = tail.match(/\breturns\s*\(.*\)/)?.[0] ?? "";
+  return [source.slice(0, i + 1), mutability, returns].filter(Boolean).join(" ");
+}
+
+function parseAbiStatements(
+  statements: AbiStatement[],
+  userTypes: SolidityUserTypes = { structs: new Map(), enums: new Set(), contracts: new Set() }
+): AbiItem[] {
+  const items: AbiItem[] = [];
+  const errors: string[] = [];
+  for (const { label, source } of statements) {
+    if (/^(pragma|import|using)\b/.test(source)) continue;
+    try {
+      const stripped = stripSolidityModifiers(source);
+      const fragment = Fragment.from(expandUserTypes(stripped, userTypes).replace(/\s+/g, " ").trim());
+      const item = JSON.parse(fragment.format("json")) as AbiItem & { constant?: boolean; payable?: boolean };
+      delete item.constant;
+      delete item.payable;
+      if (fragment instanceof FunctionFragment) item.stateMutability = fragment.stateMutability;
+      if (fragment instanceof ConstructorFragment) item.stateMutability = fragment.payable ? "payable" : "nonpayable";
+      items.push(item);
+    } catch (e) {
+      const error = e as Error & { shortMessage?: string };
+      errors.push(`${label}: ${error.shortMessage || error.message} in "${source}"`);
+    }
+  }
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+  if (items.length === 0) throw new Error("No ABI fragments found");
+  return items;
+}
+
+const ABI_ENTRY_TYPES = ["function", "event", "error", "constructor", "fallback", "receive"];
+
+// Check every ABI entry on its own, then across entries for duplicate selectors/topics and overloads
+function diagnoseAbi(abi: AbiItem[]): AbiDiagnostic[] {
+  const diagnostics = abi.map((item, index): AbiDiagnostic => {
+    const label = [item?.type ?? "(no type)", item?.name].filter(Boolean).join(" ");
+    const d: AbiDiagnostic = { index, label, selector: null, errors: [], warnings: [] };
+    if (!item || typeof item !== "object") {
+      d.errors.push("Entry is not an object");
+      return d;
+    }
+    if (!ABI_ENTRY_TYPES.includes(item.type)) {
+      d.errors.push(`Unknown entry type "${item.type}"`);
+      return d;
+    }
+    if (["function", "event", "error"].includes(item.type) && !item.name) d.errors.push(`${item.type} has no name`);
+    (item.inputs ?? []).forEach((input, i) => {
+      if (!input.type) d.errors.push(`Input #${i} has no type`);
+    });
+    (item.outputs ?? []).forEach((output, i) => {
+      if (!output.type) d.errors.push(`Output #${i} has no type`);
+    });
+    if (d.errors.length > 0) return d;
+
+    try {
+      const fragment = Fragment.from(item);
+      d.label = fragment.format("sighash");
+      if (fragment instanceof FunctionFragment || fragment instanceof ErrorFragment) d.selector = fragment.selector;
+      if (fragment instanceof EventFragment) d.selector = fragment.topicHash;
+    } catch (e) {
+      const error = e as Error & { shortMessage?: string };
+      d.errors.push(error.shortMessage || error.message);
+      return d;
+    }
+
+    if (item.type === "function" && !item.stateMutability) {
+      d.warnings.push("No stateMutability, treated as nonpayable");
+    }
+    if (item.type === "event") {
+      const indexed = (item.inputs ?? []).filter((input) => input.indexed).length;
+      const maxIndexed = item.anonymous ? 4 : 3;
+      if (indexed > maxIndexed) d.errors.push(`${indexed} indexed inputs, at most ${maxIndexed} allowed`);
+    }
+    (item.inputs ?? []).forEach((input, i) => {
+      if (item.type === "function" && !input.name) d.warnings.push(`Input #${i} has no name`);
+    });
+    return d;
+  });
+
+  // Group by selector/topic: same signature is a duplicate, different signatures a collision
+  const bySelector = new Map<string, AbiDiagnostic[]>();
+  for (const d of diagnostics) {
+    if (!d.selector) continue;
+    const key = `${abi[d.index].type}:${d.selector}`;
+    bySelector.set(key, [...(bySelector.get(key) ?? []), d]);
+  }
+  for (const group of bySelector.values()) {
+    if (group.length < 2) continue;
+    for (const d of group) {
+      const others = group.filter((o) => o !== d);
+      if (others.some((o) => o.label !== d.label)) {
+        d.errors.push(`Selector collides with ${others.map((o) => `#${o.index} ${o.label}`).join(", ")}`);
+      } else {
+        d.warnings.push(`Duplicate of ${others.map((o) => `#${o.index}`).join(", ")}`);
+      }
+    }
+  }
+
+  // Overloaded functions must be called by full signature, not by name
+  const byName = new Map<string, Set<string>>();
+  for (const d of diagnostics) {
+    const item = abi[d.index];
+    if (item?.type !== "function" || !d.selector || !item.name) continue;
+    byName.set(item.name, (byName.get(item.name) ?? new Set()).add(d.label));
+  }
+  for (const d of diagnostics) {
+    const item = abi[d.index];
+    const variants = item?.type === "function" && item.name ? byName.get(item.name) : undefined;
+    if (variants && variants.size > 1) {
+      d.warnings.push(`Overloaded (${variants.size} variants), called by signature ${d.label}`);
+    }
+  }
+  return diagnostics;
+}
+
+// Multicall3, deployed at the same address on most chains
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
+];
+
+// Minimal ABI used to read token metadata regardless of what the user pasted
+const ERC20_METADATA_ABI = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+];
+
+// An ABI looks like an ERC-20 when it has decimals() plus the balanceOf/transfer pair
+function isErc20Abi(abi: AbiItem[]): boolean {
+  const has = (name: string, inputs: number) =>
+    abi.some((a) => a.type === "function" && a.name === name && (a.inputs || []).length === inputs);
+  return has("decimals", 0) && has("balanceOf", 1) && has("transfer", 2);
+}
+
+// Accepted spellings of a bool input, shared by the form and imported batches
+function parseBool(raw: string): boolean {
+  const v = raw.trim().toLowerCase();
+  if (v === "true" || v === "1" || v === "yes") return true;
+  if (v === "false" || v === "0" || v === "no") return false;
+  throw new Error(`Expected true or false, got "${raw}"`);
+}
+
+// Split an array type into its element type and length, e.g. "uint256[2][]" -> "uint256[2]", null (dynamic)
+function parseArrayType(type: string): { elementType: string; length: number | null } | null {
+  const match = type.match(/^(.*)\[(\d*)\]$/);
+  if (!match) return null;
+  return { elementType: match[1], length: match[2] === "" ? null : Number(match[2]) };
+}
+
+// Canonical type string, expanding tuples into their component types, e.g. "(address,uint256)[]"
+function formatParamType(input: AbiInput): string {
+  if (input.type.startsWith("tuple")) {
+    const inner = (input.components || []).map(formatParamType).join(",");
+    return `(${inner})${input.type.slice("tuple".length)}`;
+  }
+  return input.type;
+}
+
+// Check that an integer string fits the bit size of a uintN/intN type
+function checkIntegerRange(type: string, value: string): string {
+  let n: bigint;
+  try {
+    n = BigInt(value);
+  } catch {
+    throw new Error(`Invalid integer "${value}"`);
+  }
+  const signed = type.startsWith("int");
+  const bits = BigInt(type.replace(/^u?int/, "") || "256");
+  const min = signed ? -(1n << (bits - 1n)) : 0n;
+  const max = signed ? (1n << (bits - 1n)) - 1n : (1n << bits) - 1n;
+  if (n < min || n > max) throw new Error(`Value out of range for ${type}`);
+  return value;
+}
+
+// Convert a result node into plain JSON: tuples become objects keyed by field name, leaves their raw value
+function resultNodeToJson(node: ResultNode): unknown {
+  if (!node.children) return node.raw;
+  if (parseArrayType(node.type)) return node.children.map(resultNodeToJson);
+  return Object.fromEntries(node.children.map((child) => [child.label, resultNodeToJson(child)]));
+}
+
+const TX_HISTORY_STORAGE_KEY = 'tx_history';
+const TX_HISTORY_LIMIT = 500;
+
+function loadTxHistory(): TxHistoryEntry[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TX_HISTORY_STORAGE_KEY) ?? "[]");
+    return Array.isArray(saved) ? (saved as TxHistoryEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// History fields taken from a mined receipt
+function receiptToHistory(receipt: TransactionReceipt): Partial<TxHistoryEntry> {
+  return {
+    status: receipt.status === null ? "mined" : receipt.status === 1 ? "success" : "failed",
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+  };
+}
+
+// A pending transaction the node no longer knows is considered dropped after this long
+const TX_DROPPED_AFTER_MS = 30 * 60 * 1000;
+
+const TX_STATUS_BADGES: Record<TxHistoryEntry["status"], { label: string; className: string }> = {
+  pending: { label: "⏳ pending", className: "bg-yellow-100 text-yellow-700" },
+  success: { label: "✅ success", className: "bg-green-100 text-green-700" },
+  failed: { label: "❌ failed", className: "bg-red-100 text-red-700" },
+  mined: { label: "⛏️ mined", className: "bg-blue-100 text-blue-700" },
+  dropped: { label: "🗑️ dropped", className: "bg-gray-100 text-gray-500" },
+};
+
+// Call arguments keyed by input name, plus the attached native value, for the history
+function namedArgs(fn: AbiItem, args: ParamValue[], overrides: Overrides): Record<string, ParamValue> {
+  const named: Record<string, ParamValue> = Object.fromEntries(
+    (fn.inputs || []).map((input, idx) => [input.name || `#${idx}`, args[idx]])
+  );
+  if (overrides.value != null) named.value = overrides.value.toString();
+  return named;
+}
+
+// Write a decoded argument back into paramsState paths (and array lengths) for its input
+function flattenParamValue(
+  input: AbiInput,
+  value: unknown,
+  path: string,
+  params: Record<string, string>,
+  lengths: Record<string, number>
+) {
+  const arrayType = parseArrayType(input.type);
+  if (arrayType) {
+    const items = Array.from(value as ArrayLike<unknown>);
+    lengths[path] = items.length;
+    items.forEach((item, j) => flattenParamValue({ ...input, type: arrayType.elementType }, item, `${path}[${j}]`, params, lengths));
+    return;
+  }
+  if (input.type === "tuple") {
+    (input.components || []).forEach((c, i) => flattenParamValue(c, (value as unknown[])[i], `${path}.${i}`, params, lengths));
+    return;
+  }
+  params[path] = String(value);
+}
+
+// Safe Transaction Builder batch file (version 1.0)
+type SafeBatchTransaction = {
+  to: string;
+  value: string;
+  data: string | null;
+  contractMethod: { inputs: AbiInput[]; name: string; payable: boolean } | null;
+  contractInputsValues: Record<string, string> | null;
+};
+
+type SafeBatch = {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+    checksum?: string;
+  };
+  transactions: SafeBatchTransaction[];
+};
+
+// The Transaction Builder keys input values by name, so unnamed inputs get a positional one
+function safeInputName(input: AbiInput, idx: number): string {
+  return input.name || `arg${idx}`;
+}
+
+// Input values are strings; arrays and tuples are JSON arrays of strings
+function toSafeInputValue(value: ParamValue): string {
+  return Array.isArray(value) ? JSON.stringify(value) : String(value);
+}
+
+function fromSafeInputValue(input: AbiInput, raw: unknown): ParamValue {
+  if (input.type.endsWith("]") || input.type.startsWith("tuple")) {
+    const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+    if (!Array.isArray(parsed)) throw new Error(`Expected an array for ${input.type}`);
+    const array = parseArrayType(input.type);
+    if (array) return parsed.map((item) => fromSafeInputValue({ ...input, type: array.elementType }, item));
+    return (input.components || []).map((component, i) => fromSafeInputValue(component, parsed[i]));
+  }
+  if (input.type === "bool") return typeof raw === "boolean" ? raw : parseBool(String(raw));
+  return String(raw);
+}
+
+// Transaction Builder version the exported batch files claim to come from
+const SAFE_TX_BUILDER_VERSION = "1.16.5";
+
+// The Transaction Builder's checksum serialization: object keys sorted, each value followed by a comma
+function serializeSafeJson(json: unknown): string {
+  if (Array.isArray(json)) return `[${json.map(serializeSafeJson).join(",")}]`;
+  if (typeof json === "object" && json !== null) {
+    const keys = Object.keys(json).sort();
+    const values = keys.map((key) => `${serializeSafeJson((json as Record<string, unknown>)[key])},`).join("");
+    return `{${JSON.stringify(keys)}${values}}`;
+  }
+  return JSON.stringify(json === undefined ? null : json);
+}
+
+// keccak256 of the batch (before its checksum is added) with meta.name nulled, checked by the Transaction Builder on import
+function safeBatchChecksum(batch: SafeBatch): string {
+  return keccak256(toUtf8Bytes(serializeSafeJson({ ...batch, meta: { ...batch.meta, name: null } })));
+}
+
+function buildSafeBatch(calls: QueuedCall[], chainId: string, safeAddress: string, ownerAddress: string): SafeBatch {
+  const batch: SafeBatch = {
+    version: "1.0",
+    chainId: BigInt(chainId).toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: "Transactions Batch",
+      description: calls.map((c) => c.fn.name).join(", "),
+      txBuilderVersion: SAFE_TX_BUILDER_VERSION,
+      createdFromSafeAddress: safeAddress,
+      createdFromOwnerAddress: ownerAddress,
+    },
+    transactions: calls.map((c) => {
+      const inputs = (c.fn.inputs || []).map((input, idx) => ({ ...input, name: safeInputName(input, idx) }));
+      // Raw-data calls imported from another batch have no method to describe
+      const hasMethod = c.fn.type === "function" && !!c.fn.name;
+      return {
+        to: getAddress(c.contract),
+        value: BigInt(c.overrides.value ?? 0).toString(),
+        // The builder encodes method calls itself and expects no data next to them
+        data: hasMethod ? null : c.data,
+        contractMethod: hasMethod ? { inputs, name: c.fn.name!, payable: c.fn.stateMutability === "payable" } : null,
+        contractInputsValues: hasMethod
+          ? Object.fromEntries(inputs.map((input, idx) => [input.name, toSafeInputValue(c.args[idx])]))
+          : null,
+      };
+    }),
+  };
+  return { ...batch, meta: { ...batch.meta, checksum: safeBatchChecksum(batch) } };
+}
+
+// Turn a Transaction Builder batch back into queued calls, re-encoding method calls from their input values
+function parseSafeBatch(text: string): QueuedCall[] {
+  const batch = JSON.parse(text) as Partial<SafeBatch>;
+  if (!batch || !Array.isArray(batch.transactions)) throw new Error("Not a Safe Transaction Builder batch (no transactions)");
+  if (batch.transactions.length === 0) throw new Error("The batch has no transactions");
+  let chainId: string;
+  try {
+    chainId = `0x${BigInt(batch.chainId ?? "").toString(16)}`;
+  } catch {
+    throw new Error(`Invalid chainId "${batch.chainId}"`);
+  }
+
+  return batch.transactions.map((tx, i) => {
+    try {
+      if (!isAddress(tx.to)) throw new Error(`invalid to address "${tx.to}"`);
+      const value = BigInt(tx.value || "0");
+      const overrides: Overrides = value > 0n ? { value } : {};
+      let fn: AbiItem = { type: "function", name: "", inputs: [], outputs: [], stateMutability: value > 0n ? "payable" : "nonpayable" };
+      let args: ParamValue[] = [];
+      let data = tx.data || "0x";
+      if (tx.contractMethod) {
+        fn = {
+          type: "function",
+          name: tx.contractMethod.name,
+          inputs: tx.contractMethod.inputs,
+          outputs: [],
+          stateMutability: tx.contractMethod.payable ? "payable" : "nonpayable",
+        };
+        const values = tx.contractInputsValues ?? {};
+        args = tx.contractMethod.inputs.map((input, idx) => fromSafeInputValue(input, values[safeInputName(input, idx)]));
+        data = new Interface([fn]).encodeFunctionData(tx.contractMethod.name, args);
+      }
+      if (!isHexString(data)) throw new Error("invalid data");
+      return {
+        id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}${i}`,
+        chainId,
+        contract: getAddress(tx.to),
+        fn,
+        abi: tx.contractMethod ? [fn] : [],
+        args,
+        overrides,
+        data,
+        status: "queued" as const,
+        detail: tx.contractMethod ? null : `raw data ${dataLength(data)} bytes`,
+        hash: null,
+      };
+    } catch (e) {
+      const error = e as Error & { shortMessage?: string };
+      throw new Error(`Transaction ${i + 1}: ${error.shortMessage || error.message}`);
+    }
+  });
+}
+
+const QUEUE_STATUS_STYLES: Record<QueuedCall["status"], string> = {
+  queued: "bg-gray-100 text-gray-700",
+  simulated: "bg-blue-100 text-blue-700",
+  "sim-failed": "bg-orange-100 text-orange-700",
+  pending: "bg-yellow-100 text-yellow-700",
+  confirmed: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  skipped: "bg-gray-100 text-gray-400",
+};
+
+const SAVED_CONTRACTS_STORAGE_KEY = 'saved_contracts';
+
+function loadSavedContracts(): SavedContract[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SAVED_CONTRACTS_STORAGE_KEY) ?? "[]");
+    return Array.isArray(saved) ? (saved as SavedContract[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Random alphanumeric nonce, EIP-4361 requires at least 8 characters
+function generateSiweNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  return Array.from(bytes, (b) => "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789"[b % 62]).join("");
+}
+
+// Serialize SIWE fields in the exact EIP-4361 layout
+function buildSiweMessage(f: SiweFields): string {
+  const header = `${f.scheme ? `${f.scheme}://` : ""}${f.domain} wants you to sign in with your Ethereum account:`;
+  const lines = [header, f.address, ""];
+  if (f.statement) lines.push(f.statement);
+  lines.push("");
+  lines.push(`URI: ${f.uri}`, `Version: ${f.version}`, `Chain ID: ${f.chainId}`, `Nonce: ${f.nonce}`, `Issued At: ${f.issuedAt}`);
+  if (f.expirationTime) lines.push(`Expiration Time: ${f.expirationTime}`);
+  if (f.notBefore) lines.push(`Not Before: ${f.notBefore}`);
+  if (f.requestId) lines.push(`Request ID: ${f.requestId}`);
+  if (f.resources.length > 0) lines.push("Resources:", ...f.resources.map((r) => `- ${r}`));
+  return lines.join("\n");
+}
+
+// Parse an EIP-4361 message; structural problems are returned per field instead of thrown
+function parseSiweMessage(text: string): { fields: Partial<SiweFields>; errors: Record<string, string> } {
+  const fields: Partial<SiweFields> = { resources: [] };
+  const errors: Record<string, string> = {};
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+
+  const header = lines[0]?.match(/^(?:([a-zA-Z][a-zA-Z0-9+.-]*):\/\/)?(\S+) wants you to sign in with your Ethereum account:$/);
+  if (header) {
+    fields.scheme = header[1];
+    fields.domain = header[2];
+  } else {
+    errors.Domain = 'First line must be "<domain> wants you to sign in with your Ethereum account:"';
+  }
+  fields.address = lines[1] ?? "";
+  if (lines[2] !== "") errors.Address = "Address must be followed by an empty line";
+
+  // Optional statement sits between two empty lines
+  let idx = 3;
+  if (lines[idx] !== "" && !lines[idx]?.startsWith("URI: ")) {
+    fields.statement = lines[idx];
+    idx++;
+  }
+  if (lines[idx] !== "") errors.Statement = "Statement must be followed by an empty line";
+  else idx++;
+
+  const keys: Record<string, keyof SiweFields> = {
+    "URI": "uri",
+    "Version": "version",
+    "Chain ID": "chainId",
+    "Nonce": "nonce",
+    "Issued At": "issuedAt",
+    "Expiration Time": "expirationTime",
+    "Not Before": "notBefore",
+    "Request ID": "requestId",
+  };
+  for (; idx < lines.length; idx++) {
+    const line = lines[idx];
+    if (line === "Resources:") {
+      fields.resources = lines.slice(idx + 1).filter((l) => l !== "").map((l) => l.replace(/^- /, ""));
+      break;
+    }
+    const sep = line.indexOf(": ");
+    const key = sep > 0 ? keys[line.slice(0, sep)] : undefined;
+    if (!key) {
+      if (line !== "") errors[`Line ${idx + 1}`] = `Unexpected line "${line}"`;
+      continue;
+    }
+    const value = line.slice(sep + 2);
+    if (key === "chainId") fields.chainId = Number(value);
+    else (fields as Record<string, unknown>)[key] = value;
+  }
+  return { fields, errors };
+}
+
+// Validate a SIWE message and its signature against the expected domain, connected chain and current time
+function validateSiweMessage(
+  text: string,
+  signature: string,
+  expected: { domain: string; chainId: number | null; now: Date }
+): SiweCheck[] {
+  const { fields, errors } = parseSiweMessage(text);
+  const checks: SiweCheck[] = [];
+  const add = (field: string, value: string | undefined, error?: string) =>
+    checks.push({ field, value: value ?? "", ok: !error && !errors[field], error: error ?? errors[field] });
+  const time = (value?: string) => (value ? Date.parse(value) : NaN);
+
+  add("Domain", fields.domain, fields.domain && expected.domain && fields.domain !== expected.domain
+    ? `Expected domain ${expected.domain}`
+    : undefined);
+
+  let addressError: string | undefined;
+  if (!fields.address || !isAddress(fields.address)) addressError = "Not a valid address";
+  else if (getAddress(fields.address) !== fields.address) addressError = "Address must be EIP-55 checksummed";
+  add("Address", fields.address, addressError);
+
+  if (fields.statement !== undefined || errors.Statement) add("Statement", fields.statement);
+  add("URI", fields.uri, fields.uri ? undefined : "Missing URI");
+  add("Version", fields.version, fields.version === "1" ? undefined : 'Version must be "1"');
+
+  let chainError: string | undefined;
+  if (fields.chainId === undefined || !Number.isInteger(fields.chainId)) chainError = "Missing or invalid Chain ID";
+  else if (expected.chainId !== null && fields.chainId !== expected.chainId) chainError = `Connected chain is ${expected.chainId}`;
+  add("Chain ID", fields.chainId?.toString(), chainError);
+
+  add("Nonce", fields.nonce, fields.nonce && /^[a-zA-Z0-9]{8,}$/.test(fields.nonce)
+    ? undefined
+    : "Nonce must be at least 8 alphanumeric characters");
+
+  let issuedError: string | undefined;
+  if (isNaN(time(fields.issuedAt))) issuedError = "Missing or invalid ISO 8601 timestamp";
+  else if (time(fields.issuedAt) > expected.now.getTime()) issuedError = "Issued in the future";
+  add("Issued At", fields.issuedAt, issuedError);
+
+  if (fields.expirationTime !== undefined) {
+    let expiryError: string | undefined;
+    if (isNaN(time(fields.expirationTime))) expiryError = "Invalid ISO 8601 timestamp";
+    else if (time(fields.expirationTime) <= expected.now.getTime()) expiryError = "Message has expired";
+    add("Expiration Time", fields.expirationTime, expiryError);
+  }
+  if (fields.notBefore !== undefined) {
+    let notBeforeError: string | undefined;
+    if (isNaN(time(fields.notBefore))) notBeforeError = "Invalid ISO 8601 timestamp";
+    else if (time(fields.notBefore) > expected.now.getTime()) notBeforeError = "Message is not valid yet";
+    add("Not Before", fields.notBefore, notBeforeError);
+  }
+  if (fields.requestId !== undefined) add("Request ID", fields.requestId);
+  if (fields.resources && fields.resources.length > 0) add("Resources", fields.resources.join(", "));
+
+  let signatureError: string | undefined;
+  try {
+    const recovered = verifyMessage(text, signature);
+    if (fields.address && recovered.toLowerCase() !== fields.address.toLowerCase()) {
+      signatureError = `Signed by ${recovered}, not the message address`;
+    }
+  } catch {
+    signatureError = "Signature is missing or malformed";
+  }
+  add("Signature", signature, signatureError);
+
+  // Structural errors that don't belong to a known field (e.g. unexpected lines)
+  for (const [field, error] of Object.entries(errors)) {
+    if (!checks.some((c) => c.field === field)) checks.push({ field, value: "", ok: false, error });
+  }
+  return checks;
+}
+
+// EIP-1271 contract signature check, returns the magic value when valid
+const EIP1271_ABI = ["function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"];
+const EIP1271_MAGIC_VALUE = "0x1626ba7e";
+
+// Parse eth_signTypedData_v4 style JSON into the arguments ethers expects
+function parseTypedDataJson(text: string): TypedDataPayload {
+  const parsed = JSON.parse(text) as Partial<TypedDataPayload>;
+  if (!parsed.domain || typeof parsed.domain !== "object") throw new Error("Typed data is missing domain");
+  if (!parsed.types || typeof parsed.types !== "object") throw new Error("Typed data is missing types");
+  if (!parsed.message || typeof parsed.message !== "object") throw new Error("Typed data is missing message");
+  const types = { ...parsed.types };
+  delete types.EIP712Domain;
+  const primaryType = parsed.primaryType ?? TypedDataEncoder.getPrimaryType(types);
+  if (!types[primaryType]) throw new Error(`primaryType ${primaryType} is not defined in types`);
+  const { verifyingContract } = parsed.domain;
+  if (verifyingContract != null && !isAddress(verifyingContract)) {
+    throw new Error(`Invalid domain verifyingContract "${verifyingContract}"`);
+  }
+  return { domain: parsed.domain, types, primaryType, message: parsed.message };
+}
+
+// ERC-2612 permit payload for the connected account and current contract, as a typed data starting point
+function getPermitTypedDataExample(chainId: string | null, owner: string | null, token: string) {
+  return {
+    domain: {
+      name: "Token Name",
+      version: "1",
+      chainId: chainId ? Number(BigInt(chainId)) : 1,
+      verifyingContract: isAddress(token) ? token : "0x0000000000000000000000000000000000000000",
+    },
+    types: {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    primaryType: "Permit",
+    message: {
+      owner: owner ?? "0x0000000000000000000000000000000000000000",
+      spender: "0x0000000000000000000000000000000000000000",
+      value: "1000000000000000000",
+      nonce: "0",
+      deadline: String(Math.floor(Date.now() / 1000) + 3600),
+    },
+  };
+}
+
+// Inputs of the advanced overrides section, stored in paramsState under fnKey#name
+const OVERRIDE_FIELDS = [
+  { name: "gasLimit", label: "Gas limit", unit: "gas", placeholder: "e.g.: 100000" },
+  { name: "maxFeePerGas", label: "Max fee", unit: "gwei", placeholder: "e.g.: 30" },
+  { name: "maxPriorityFeePerGas", label: "Priority fee", unit: "gwei", placeholder: "e.g.: 1.5" },
+  { name: "gasPrice", label: "Gas price", unit: "gwei, legacy", placeholder: "e.g.: 5" },
+  { name: "nonce", label: "Nonce", unit: "integer", placeholder: "e.g.: 42" },
+];
+
+// Parse a non-negative override value, null when empty; fees are entered in gwei
+function parseOverrideAmount(label: string, raw: string, unit?: "gwei"): bigint | null {
+  if (raw === "") return null;
+  try {
+    const value = unit ? parseUnits(raw, unit) : BigInt(raw);
+    if (value < 0n) throw new Error("negative");
+    return value;
+  } catch {
+    throw new Error(`${label}: invalid value "${raw}"`);
+  }
+}
+
+// Default JSON-RPC endpoint of local dev nodes (anvil, hardhat node)
+const LOCAL_RPC_URL = "http://127.0.0.1:8545";
+
+// JSON-RPC provider for an http(s) or ws(s) endpoint, with the chain taken from the first response
+function createRpcProvider(url: string): JsonRpcApiProvider {
+  return /^wss?:\/\//.test(url)
+    ? new WebSocketProvider(url, undefined, { staticNetwork: true })
+    : new JsonRpcProvider(url, undefined, { staticNetwork: true });
+}
+
+// Reject when a promise has not settled in time; the timer is cleared either way
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Fallback when the connected chain is not in CHAIN_MAP
+const DEFAULT_NATIVE_CURRENCY: ChainConfig["nativeCurrency"] = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+const CUSTOM_CHAINS_STORAGE_KEY = 'custom_chains';
+
+function loadCustomChains(): Record<string, ChainConfig> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_CHAINS_STORAGE_KEY) ?? "{}");
+    return saved && typeof saved === "object" && !Array.isArray(saved) ? (saved as Record<string, ChainConfig>) : {};
+  } catch {
+    return {};
+  }
+}
+
+const EXPLORER_ABI_CACHE_STORAGE_KEY = 'explorer_abi_cache';
+const EXPLORER_ABI_CACHE_LIMIT = 50;
+
+const ETHERSCAN_V2_API = "https://api.etherscan.io/v2/api";
+
+// Insert or refresh an entry as most recently used, evicting the oldest beyond the limit (keys keep insertion order)
+function cacheExplorerAbi(cache: Record<string, string>, key: string, abiJson: string): Record<string, string> {
+  const entries = Object.entries(cache).filter(([k]) => k !== key);
+  return Object.fromEntries([...entries, [key, abiJson]].slice(-EXPLORER_ABI_CACHE_LIMIT));
+}
+
+function loadExplorerAbiCache(): Record<string, string> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(EXPLORER_ABI_CACHE_STORAGE_KEY) ?? "{}");
+    return saved && typeof saved === "object" && !Array.isArray(saved) ? (saved as Record<string, string>) : {};
+  } catch {
+    return {};
+  }
+}
+
+// EIP-1967 storage slots: keccak256("eip1967.proxy.<name>") - 1
+const EIP1967_IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+const EIP1967_ADMIN_SLOT = "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+const EIP1967_BEACON_SLOT = "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50";
+const BEACON_ABI = ["function implementation() view returns (address)"];
+
+// EIP-1167 minimal proxy runtime code around the 20-byte implementation address
+const EIP1167_PREFIX = "0x363d3d373d3d3d363d73";
+const EIP1167_SUFFIX = "5af43d82803e903d91602b57fd5bf3";
+
+// Address stored in the low 20 bytes of a slot, null when empty
+function slotToAddress(slot: string): string | null {
+  const address = dataSlice(slot, 12);
+  return BigInt(address) === 0n ? null : getAddress(address);
+}
+
+async function detectProxy(provider: JsonRpcApiProvider, address: string): Promise<ProxyInfo | null> {
+  const code = (await provider.getCode(address)).toLowerCase();
+  if (code.length === 2 + 45 * 2 && code.startsWith(EIP1167_PREFIX) && code.endsWith(EIP1167_SUFFIX)) {
+    return { kind: "EIP-1167", implementation: getAddress(dataSlice(code, 10, 30)), admin: null, beacon: null };
+  }
+
+  const [implSlot, adminSlot, beaconSlot] = await Promise.all([
+    provider.getStorage(address, EIP1967_IMPLEMENTATION_SLOT),
+    provider.getStorage(address, EIP1967_ADMIN_SLOT),
+    provider.getStorage(address, EIP1967_BEACON_SLOT),
+  ]);
+  const admin = slotToAddress(adminSlot);
+  const implementation = slotToAddress(implSlot);
+  if (implementation) return { kind: "EIP-1967", implementation, admin, beacon: null };
+
+  const beacon = slotToAddress(beaconSlot);
+  if (beacon) {
+    const beaconImpl = String(await new Contract(beacon, BEACON_ABI, provider).implementation());
+    return { kind: "EIP-1967 beacon", implementation: getAddress(beaconImpl), admin, beacon };
+  }
+  return null;
+}
+
+// Union of two ABIs, fragments of `extra` that already exist in `base` (same kind + signature) are skipped
+function mergeAbis(base: AbiItem[], extra: AbiItem[]): AbiItem[] {
+  const key = (item: AbiItem) => `${item.type}:${item.name ?? ""}(${(item.inputs ?? []).map(formatParamType).join(",")})`;
+  const seen = new Set(base.map(key));
+  return [...base, ...extra.filter((item) => !seen.has(key(item)))];
+}
+
+// Custom chain editor inputs, all kept as text until saved
+type ChainForm = {
+  chainId: string;
+  name: string;
+  icon: string;
+  rpcUrl: string;
+  explorerUrl: string;
+  currencyName: string;
+  currencySymbol: string;
+  currencyDecimals: string;
+};
+
+const EMPTY_CHAIN_FORM: ChainForm = {
+  chainId: "",
+  name: "",
+  icon: "",
+  rpcUrl: "",
+  explorerUrl: "",
+  currencyName: "",
+  currencySymbol: "",
+  currencyDecimals: "18",
+};
+
+const CHAIN_FORM_FIELDS: { name: keyof ChainForm; label: string; placeholder: string; wide?: boolean }[] = [
+  { name: "chainId", label: "Chain ID", placeholder: "31337 or 0x7a69" },
+  { name: "name", label: "Name", placeholder: "Anvil" },
+  { name: "rpcUrl", label: "RPC URL", placeholder: LOCAL_RPC_URL, wide: true },
+  { name: "explorerUrl", label: "Explorer URL", placeholder: "optional", wide: true },
+  { name: "currencyName", label: "Currency name", placeholder: "Ether" },
+  { name: "currencySymbol", label: "Currency symbol", placeholder: "ETH" },
+  { name: "currencyDecimals", label: "Decimals", placeholder: "18" },
+  { name: "icon", label: "Icon", placeholder: "🧩" },
+];
+
+// Validate the editor inputs into a ChainConfig with a normalized hex chain id
+function chainFormToConfig(form: ChainForm): ChainConfig {
+  let id: bigint;
+  try {
+    id = BigInt(form.chainId.trim());
+  } catch {
+    throw new Error(`Invalid chain ID "${form.chainId}"`);
+  }
+  if (id <= 0n) throw new Error("Chain ID must be positive");
+  if (!form.name.trim()) throw new Error("Name is required");
+  if (!/^(https?|wss?):\/\//.test(form.rpcUrl.trim())) throw new Error("RPC URL must start with http(s):// or ws(s)://");
+  const explorer = form.explorerUrl.trim().replace(/\/+$/, "");
+  if (explorer && !/^https?:\/\//.test(explorer)) throw new Error("Explorer URL must start with http(s)://");
+  if (!form.currencySymbol.trim()) throw new Error("Currency symbol is required");
+  const decimals = Number(form.currencyDecimals.trim());
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) throw new Error("Decimals must be an integer between 0 and 36");
+  return {
+    chainId: `0x${id.toString(16)}`,
+    name: form.name.trim(),
+    icon: form.icon.trim() || "🧩",
+    rpcUrls: [form.rpcUrl.trim()],
+    blockExplorerUrls: explorer ? [explorer] : [],
+    nativeCurrency: {
+      name: form.currencyName.trim() || form.currencySymbol.trim(),
+      symbol: form.currencySymbol.trim(),
+      decimals,
+    },
+  };
+}
+
+function chainConfigToForm(chain: ChainConfig): ChainForm {
+  return {
+    chainId: BigInt(chain.chainId).toString(),
+    name: chain.name,
+    icon: chain.icon,
+    rpcUrl: chain.rpcUrls[0] ?? "",
+    explorerUrl: chain.blockExplorerUrls[0] ?? "",
+    currencyName: chain.nativeCurrency.name,
+    currencySymbol: chain.nativeCurrency.symbol,
+    currencyDecimals: String(chain.nativeCurrency.decimals),
+  };
+}
+
+// Look up a chain (built-in or custom) by its hex chain id
+function findChainConfig(chainId: string | null, chains: Record<string, ChainConfig>): ChainConfig | null {
+  if (!chainId) return null;
+  return Object.values(chains).find((c) => c.chainId.toLowerCase() === chainId.toLowerCase()) ?? null;
+}
+
+// One-line summary of a simulation for the log and the confirmation dialog
+function describeSimulation(sim: SimulationResult): string {
+  if (!sim.success) return `Simulation reverted: ${sim.revert}`;
+  const cost = sim.maxCost === null
+    ? "unknown"
+    : `${formatUnits(sim.maxCost, sim.nativeCurrency.decimals)} ${sim.nativeCurrency.symbol}`;
+  const value = sim.value > 0n
+    ? `Value: ${formatUnits(sim.value, sim.nativeCurrency.decimals)} ${sim.nativeCurrency.symbol}, `
+    : "";
+  return `${value}Estimated gas: ${sim.gasEstimate}, max cost: ${cost}`;
+}
+
+// Selectors of the built-in Solidity revert types
+const ERROR_STRING_SELECTOR = "0x08c379a0"; // Error(string)
+const PANIC_SELECTOR = "0x4e487b71"; // Panic(uint256)
+
+const PANIC_REASONS: Record<number, string> = {
+  0x00: "generic compiler panic",
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "incorrectly encoded storage byte array",
+  0x31: "pop() on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to an uninitialized internal function",
+};
+
+// Find revert data in an ethers / wallet error, providers nest it at different depths
+function extractRevertData(error: unknown, depth = 0): string | null {
+  if (!error || typeof error !== "object" || depth > 5) return null;
+  const e = error as Record<string, unknown>;
+  if (typeof e.data === "string" && isHexString(e.data, true) && dataLength(e.data) >= 4) return e.data;
+  for (const key of ["data", "error", "info", "cause", "originalError"]) {
+    const found = extractRevertData(e[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Newest first, one row per log: a log can arrive both from a query and from the live subscription
+function mergeEventLogs(incoming: DecodedEventLog[], existing: DecodedEventLog[]): DecodedEventLog[] {
+  const seen = new Set<string>();
+  return [...incoming, ...existing].filter((log) => !seen.has(log.id) && seen.add(log.id)).slice(0, 200);
+}
+
+// Parse a block number input, accepting decimal, hex and "latest"
+function parseBlockNumber(value: string, latest: number): number {
+  const v = value.trim().toLowerCase();
+  if (v === "latest") return latest;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`Invalid block number "${value}"`);
+  return n;
+}
+
+// One-line summary of a function result for the log and toast
+function summarizeResult(nodes: ResultNode[]): string {
+  if (nodes.length === 1 && !nodes[0].children) return nodes[0].value ?? "";
+  if (nodes.length === 1) return JSON.stringify(resultNodeToJson(nodes[0]));
+  return JSON.stringify(Object.fromEntries(nodes.map((node) => [node.label, resultNodeToJson(node)])));
+}
+
+// Drop item `removed` of the array at `path` from a path-keyed record and shift later items down
+function removeArrayEntry<T>(record: Record<string, T>, path: string, removed: number): Record<string, T> {
+  const prefix = `${path}[`;
+  const next: Record<string, T> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const match = key.startsWith(prefix) ? key.slice(prefix.length).match(/^(\d+)\](.*)$/) : null;
+    if (!match) {
+      next[key] = value;
+      continue;
+    }
+    const index = Number(match[1]);
+    if (index === removed) continue;
+    next[index > removed ? `${prefix}${index - 1}]${match[2]}` : key] = value;
+  }
+  return next;
+}
+
 function placeholderForType(t: string) {
   if (t.startsWith("uint") || t.startsWith("int")) return "e.g.: 123 or 1000000000000000000";
   if (t === "address") return "e.g.: 0xabc...";